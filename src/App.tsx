@@ -3,22 +3,39 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { useEffect, useState } from "react";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccess } from "@/services/AuthService";
 
 const queryClient = new QueryClient();
 
-// Check if user is authenticated
-const RequireAuth = ({ children }: { children: React.ReactNode }) => {
-  const accessMode = sessionStorage.getItem('accessMode');
-  
-  if (!accessMode) {
-    return <Navigate to="/login" replace />;
+// Check the user is signed in and their role allows the view behind this route
+const RequireAuth = ({ view, children }: { view: 'device' | 'support'; children: React.ReactNode }) => {
+  const { status, accessMode } = useAuth();
+  const location = useLocation();
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (status === 'signed-out') {
+    // Keep the query too, so a scanned join code survives signing in
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  if (!canAccess(accessMode, view)) {
+    // Send the user to the view they are allowed to use
+    return <Navigate to={view === 'support' ? "/" : "/support"} replace />;
   }
-  
+
   return <>{children}</>;
 };
 
@@ -32,8 +49,18 @@ const App = () => {
           <Routes>
             <Route path="/login" element={<Login />} />
             <Route path="/" element={
-              <RequireAuth>
-                <Index />
+              <RequireAuth view="device">
+                <Index tab="user" />
+              </RequireAuth>
+            } />
+            <Route path="/support" element={
+              <RequireAuth view="support">
+                <Index tab="support" />
+              </RequireAuth>
+            } />
+            <Route path="/history" element={
+              <RequireAuth view="support">
+                <Index tab="history" />
               </RequireAuth>
             } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
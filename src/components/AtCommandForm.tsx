@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Send, Eye, AlertTriangle } from "lucide-react";
+import { atCommandCatalog, AtCommandDefinition, buildAtCommand, buildAtCommandSchema, getAtCommand } from "@/lib/atCommands";
+
+type AtCommandFormProps = {
+  onSubmit: (command: string, definition: AtCommandDefinition) => void | Promise<void>;
+  disabled?: boolean;
+  submitLabel?: string;
+};
+
+// Command picker plus a parameter form generated from the AT command catalogue
+export const AtCommandForm = ({ onSubmit, disabled = false, submitLabel = "Send" }: AtCommandFormProps) => {
+  const [selectedCommand, setSelectedCommand] = useState<string>(atCommandCatalog[0].command);
+  const definition = getAtCommand(selectedCommand) ?? atCommandCatalog[0];
+
+  return (
+    <div className="space-y-3">
+      <Select value={selectedCommand} onValueChange={setSelectedCommand}>
+        <SelectTrigger className="font-mono text-sm">
+          <SelectValue placeholder="Select a command" />
+        </SelectTrigger>
+        <SelectContent>
+          {atCommandCatalog.map((def) => (
+            <SelectItem key={def.command} value={def.command} className="font-mono text-sm">
+              {def.command}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-start gap-2">
+        {definition.readOnly ? (
+          <span className="inline-flex items-center gap-1 bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full shrink-0">
+            <Eye className="h-3 w-3" />
+            Read-only
+          </span>
+        ) : (
+          <span className="inline-flex items-center gap-1 bg-amber-100 text-amber-700 text-xs px-2 py-0.5 rounded-full shrink-0">
+            <AlertTriangle className="h-3 w-3" />
+            Changes device
+          </span>
+        )}
+        <p className="text-xs text-muted-foreground">{definition.description}</p>
+      </div>
+
+      {/* Keyed so the form and its schema are rebuilt whenever the command changes */}
+      <AtCommandParamsForm
+        key={definition.command}
+        definition={definition}
+        onSubmit={onSubmit}
+        disabled={disabled}
+        submitLabel={submitLabel}
+      />
+    </div>
+  );
+};
+
+type AtCommandParamsFormProps = {
+  definition: AtCommandDefinition;
+  onSubmit: (command: string, definition: AtCommandDefinition) => void | Promise<void>;
+  disabled: boolean;
+  submitLabel: string;
+};
+
+const AtCommandParamsForm = ({ definition, onSubmit, disabled, submitLabel }: AtCommandParamsFormProps) => {
+  const defaultValues: Record<string, string> = {};
+  definition.params.forEach(param => {
+    defaultValues[param.name] = param.type === 'enum' ? param.options?.[0]?.value ?? "" : "";
+  });
+
+  const form = useForm<Record<string, string>>({
+    resolver: zodResolver(buildAtCommandSchema(definition)),
+    defaultValues,
+  });
+
+  const handleSubmit = async (values: Record<string, string>) => {
+    await onSubmit(buildAtCommand(definition, values), definition);
+    form.reset(defaultValues);
+  };
+
+  // Preview of what will be sent - only shown once the current values are valid
+  const watchedValues = form.watch();
+  let preview: string | null = null;
+  try {
+    preview = buildAtCommand(definition, watchedValues);
+  } catch {
+    preview = null;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-3">
+        {definition.params.map((param) => (
+          <FormField
+            key={param.name}
+            control={form.control}
+            name={param.name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-xs">
+                  {param.label}
+                  {!param.required && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                </FormLabel>
+                {param.type === 'enum' ? (
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="h-8 text-sm">
+                        <SelectValue placeholder={`Select ${param.label.toLowerCase()}`} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {param.options?.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} ({option.value})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type={param.secret ? "password" : param.type === 'integer' ? "number" : "text"}
+                      min={param.min}
+                      max={param.max}
+                      maxLength={param.maxLength}
+                      className="h-8 text-sm font-mono"
+                    />
+                  </FormControl>
+                )}
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <div className="flex items-center gap-2">
+          <code className="flex-1 text-xs font-mono bg-muted/50 px-2 py-1.5 rounded truncate">
+            {preview ?? definition.command}
+          </code>
+          <Button type="submit" size="sm" disabled={disabled} className="gap-1.5">
+            <Send className="h-3.5 w-3.5" />
+            {submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
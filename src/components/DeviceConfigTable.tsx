@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff } from "lucide-react";
+import {
+  DeviceConfig,
+  formatConfigValue,
+  getConfigLabel,
+  getOrderedConfigKeys,
+  isSecretConfigKey
+} from "@/lib/deviceConfig";
+
+type DeviceConfigTableProps = {
+  config: DeviceConfig;
+  // When set, a "Before" column is shown and changed rows are highlighted
+  compareTo?: DeviceConfig | null;
+};
+
+// Key/value view of a parsed AT+CFG response
+export const DeviceConfigTable = ({ config, compareTo }: DeviceConfigTableProps) => {
+  const [showSecrets, setShowSecrets] = useState(false);
+  const keys = getOrderedConfigKeys(compareTo, config);
+  const hasSecrets = keys.some(isSecretConfigKey);
+
+  const renderValue = (key: string, value: string | undefined) => {
+    if (value !== undefined && isSecretConfigKey(key) && !showSecrets) {
+      return "••••••••";
+    }
+    return formatConfigValue(key, value);
+  };
+
+  if (keys.length === 0) {
+    return <p className="text-sm text-muted-foreground">No configuration values reported.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {hasSecrets && (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => setShowSecrets(!showSecrets)}>
+            {showSecrets ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+            {showSecrets ? "Hide secrets" : "Show secrets"}
+          </Button>
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/3">Setting</TableHead>
+            {compareTo && <TableHead>Before</TableHead>}
+            <TableHead>{compareTo ? "After" : "Value"}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {keys.map((key) => {
+            const changed = compareTo ? compareTo[key] !== config[key] : false;
+            return (
+              <TableRow key={key} className={changed ? "bg-amber-50 hover:bg-amber-100" : undefined}>
+                <TableCell className="py-2 text-sm font-medium">{getConfigLabel(key)}</TableCell>
+                {compareTo && (
+                  <TableCell className={`py-2 font-mono text-xs break-all ${changed ? "text-muted-foreground line-through" : ""}`}>
+                    {renderValue(key, compareTo[key])}
+                  </TableCell>
+                )}
+                <TableCell className={`py-2 font-mono text-xs break-all ${changed ? "text-amber-800 font-semibold" : ""}`}>
+                  {renderValue(key, config[key])}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
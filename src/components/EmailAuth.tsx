@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+import authService from "@/services/AuthService";
+
+const emailSchema = z.string().email({ message: "Enter a valid email address." });
+
+const passwordFormSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, { message: "Enter your password." }),
+});
+
+const magicLinkFormSchema = z.object({
+  email: emailSchema,
+});
+
+const signUpFormSchema = z.object({
+  displayName: z.string().min(2, { message: "Name must be at least 2 characters." }).max(50),
+  email: emailSchema,
+  password: z.string().min(8, { message: "Password must be at least 8 characters." }),
+});
+
+// Email sign-in for Supabase Auth. Navigation happens once the auth state changes
+export const EmailAuth = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null);
+
+  const passwordForm = useForm<z.infer<typeof passwordFormSchema>>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const magicLinkForm = useForm<z.infer<typeof magicLinkFormSchema>>({
+    resolver: zodResolver(magicLinkFormSchema),
+    defaultValues: { email: "" },
+  });
+
+  const signUpForm = useForm<z.infer<typeof signUpFormSchema>>({
+    resolver: zodResolver(signUpFormSchema),
+    defaultValues: { displayName: "", email: "", password: "" },
+  });
+
+  const onPasswordSubmit = async (values: z.infer<typeof passwordFormSchema>) => {
+    setIsSubmitting(true);
+    try {
+      await authService.signInWithPassword(values.email, values.password);
+      toast.success("Signed in");
+    } catch (error) {
+      toast.error(error?.message || "Could not sign in. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onMagicLinkSubmit = async (values: z.infer<typeof magicLinkFormSchema>) => {
+    setIsSubmitting(true);
+    try {
+      await authService.signInWithMagicLink(values.email);
+      setMagicLinkSentTo(values.email);
+    } catch (error) {
+      toast.error(error?.message || "Could not send the sign-in link. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onSignUpSubmit = async (values: z.infer<typeof signUpFormSchema>) => {
+    setIsSubmitting(true);
+    try {
+      const needsConfirmation = await authService.signUp(values.email, values.password, values.displayName);
+      if (needsConfirmation) {
+        toast.success("Check your inbox to confirm your account");
+      } else {
+        toast.success("Account created");
+      }
+    } catch (error) {
+      toast.error(error?.message || "Could not create the account. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitButton = (label: string) => (
+    <Button type="submit" className="w-full" disabled={isSubmitting}>
+      {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="text-center space-y-1">
+        <h2 className="text-2xl font-bold">Sign in</h2>
+        <p className="text-muted-foreground">
+          Device owners and support agents sign in with their email address
+        </p>
+      </div>
+
+      <Tabs defaultValue="password">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="password">Password</TabsTrigger>
+          <TabsTrigger value="magic-link">Email link</TabsTrigger>
+          <TabsTrigger value="sign-up">Sign up</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="password">
+          <Form {...passwordForm}>
+            <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4 pt-2">
+              <FormField
+                control={passwordForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={passwordForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {submitButton("Sign in")}
+            </form>
+          </Form>
+        </TabsContent>
+
+        <TabsContent value="magic-link">
+          {magicLinkSentTo ? (
+            <div className="text-center space-y-3 pt-4">
+              <Mail className="h-8 w-8 mx-auto text-primary" />
+              <p className="text-sm">
+                We sent a sign-in link to <span className="font-medium">{magicLinkSentTo}</span>.
+                Open it on this device to continue.
+              </p>
+              <Button variant="outline" size="sm" onClick={() => setMagicLinkSentTo(null)}>
+                Use a different address
+              </Button>
+            </div>
+          ) : (
+            <Form {...magicLinkForm}>
+              <form onSubmit={magicLinkForm.handleSubmit(onMagicLinkSubmit)} className="space-y-4 pt-2">
+                <FormField
+                  control={magicLinkForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" autoComplete="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {submitButton("Email me a sign-in link")}
+              </form>
+            </Form>
+          )}
+        </TabsContent>
+
+        <TabsContent value="sign-up">
+          <Form {...signUpForm}>
+            <form onSubmit={signUpForm.handleSubmit(onSignUpSubmit)} className="space-y-4 pt-2">
+              <FormField
+                control={signUpForm.control}
+                name="displayName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={signUpForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={signUpForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {submitButton("Create account")}
+              <p className="text-xs text-muted-foreground text-center">
+                New accounts can request support for their own devices. Support access is granted by an administrator.
+              </p>
+            </form>
+          </Form>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -0,0 +1,443 @@
+import { useState, useEffect, useCallback } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { CheckCircle2, XCircle, Loader2, Pencil, Plus, Play, Trash2 } from "lucide-react";
+import provisioningService from "@/services/ProvisioningService";
+import { MqttProfile, ProvisioningReport, ProvisioningStepStatus } from "@/lib/provisioning";
+import { isSecretConfigKey } from "@/lib/deviceConfig";
+
+// Mirrors the limits of the matching commands in the AT command catalogue
+const noLineBreaks = (label: string, max: number) => z.string()
+  .min(1, { message: `${label} is required.` })
+  .max(max, { message: `${label} must not be longer than ${max} characters.` })
+  .refine(value => !/[\r\n\0]/.test(value), { message: `${label} must not contain line breaks.` });
+
+const profileFormSchema = z.object({
+  name: z.string().min(3, { message: "Profile name must be at least 3 characters." }).max(50),
+  payloadType: z.enum(["0", "5"]),
+  host: noLineBreaks("Host", 128),
+  port: z.coerce.number().int().min(1).max(65535),
+  clientId: noLineBreaks("Client ID", 64),
+  username: noLineBreaks("Username", 64),
+  password: noLineBreaks("Password", 64),
+  pubTopic: noLineBreaks("Publish topic", 64),
+  subTopic: noLineBreaks("Subscribe topic", 64)
+});
+
+type ProfileFormValues = z.infer<typeof profileFormSchema>;
+
+const emptyProfile: ProfileFormValues = {
+  name: "",
+  payloadType: "0",
+  host: "",
+  port: 1883,
+  clientId: "",
+  username: "",
+  password: "",
+  pubTopic: "",
+  subTopic: ""
+};
+
+const statusStyles: Record<ProvisioningStepStatus, string> = {
+  unchanged: "bg-gray-100 text-gray-600",
+  pending: "bg-blue-100 text-blue-700",
+  applied: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  skipped: "bg-amber-100 text-amber-700"
+};
+
+type ProvisioningPanelProps = {
+  disabled?: boolean;
+};
+
+// Pick a stored MQTT profile and apply it to the connected device. Only support agents manage profiles
+export const ProvisioningPanel = ({ disabled = false }: ProvisioningPanelProps) => {
+  const [profiles, setProfiles] = useState<MqttProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | undefined>(undefined);
+  const [editingProfile, setEditingProfile] = useState<MqttProfile | null>(null);
+  const [isProfileDialogOpen, setIsProfileDialogOpen] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [report, setReport] = useState<ProvisioningReport | null>(null);
+  const { toast } = useToast();
+  const { profile: userProfile } = useAuth();
+  const canManageProfiles = userProfile?.role === 'support_agent';
+
+  const selectedProfile = profiles.find(profile => profile.id === selectedProfileId);
+
+  const profileForm = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: emptyProfile,
+  });
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const loaded = await provisioningService.getProfiles();
+      setProfiles(loaded);
+      setSelectedProfileId(prev => prev && loaded.some(profile => profile.id === prev) ? prev : loaded[0]?.id);
+    } catch (error) {
+      console.error("Error loading provisioning profiles:", error);
+      toast({
+        title: "Profiles Unavailable",
+        description: "Could not load provisioning profiles",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const openProfileDialog = async (profile: MqttProfile | null) => {
+    try {
+      // The list leaves out passwords, so fetch the one being edited
+      const editing = profile ? await provisioningService.withPassword(profile) : null;
+      setEditingProfile(editing);
+      profileForm.reset(editing ? { ...editing, payloadType: editing.payloadType as "0" | "5" } : emptyProfile);
+      setIsProfileDialogOpen(true);
+    } catch (error) {
+      console.error("Error loading provisioning profile:", error);
+      toast({
+        title: "Profile Unavailable",
+        description: "Could not load the profile for editing",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onProfileSubmit = async (values: ProfileFormValues) => {
+    try {
+      const saved = await provisioningService.saveProfile({ ...(values as MqttProfile), id: editingProfile?.id });
+      setIsProfileDialogOpen(false);
+      await loadProfiles();
+      setSelectedProfileId(saved.id);
+      toast({
+        title: "Profile Saved",
+        description: `${saved.name} is ready to apply`,
+      });
+    } catch (error) {
+      console.error("Error saving provisioning profile:", error);
+      toast({
+        title: "Save Failed",
+        description: "Could not save the profile. Names must be unique.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!selectedProfile?.id) return;
+
+    try {
+      await provisioningService.deleteProfile(selectedProfile.id);
+      await loadProfiles();
+      toast({
+        title: "Profile Deleted",
+        description: `${selectedProfile.name} has been removed`,
+      });
+    } catch (error) {
+      console.error("Error deleting provisioning profile:", error);
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyProfile = async () => {
+    if (!selectedProfile) return;
+
+    setIsApplying(true);
+    setReport(null);
+    try {
+      const result = await provisioningService.applyProfile(selectedProfile, setReport);
+      const changed = result.steps.filter(step => step.status !== 'unchanged').length;
+      toast({
+        title: result.passed ? "Provisioning Passed" : "Provisioning Failed",
+        description: result.passed
+          ? `${changed} setting(s) changed and verified`
+          : result.error ?? "Some settings did not apply or verify",
+        variant: result.passed ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error("Error applying provisioning profile:", error);
+      toast({
+        title: "Provisioning Failed",
+        description: error?.message || "Could not apply the profile",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderValue = (key: string, value: string | undefined) => {
+    if (value === undefined) return "—";
+    return isSecretConfigKey(key) ? "••••••••" : value;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder={profiles.length === 0 ? "No profiles yet" : "Select a profile"} />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canManageProfiles && (
+          <>
+            <Button variant="outline" size="icon" onClick={() => openProfileDialog(null)} title="New profile">
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => openProfileDialog(selectedProfile ?? null)} disabled={!selectedProfile} title="Edit profile">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={deleteProfile} disabled={!selectedProfile || isApplying} title="Delete profile">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <Button onClick={applyProfile} disabled={!selectedProfile || isApplying || disabled} className="gap-1.5 ml-auto">
+          {isApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          Apply Profile
+        </Button>
+      </div>
+
+      {selectedProfile && !report && (
+        <p className="text-xs text-muted-foreground">
+          MQTT to {selectedProfile.host}:{selectedProfile.port} as {selectedProfile.clientId}. Only settings that differ from the device's current AT+CFG output are sent.
+        </p>
+      )}
+
+      {report && (
+        <div className="space-y-3">
+          {report.finishedAt && (
+            <div className={`flex items-center gap-2 p-3 rounded-lg text-sm ${report.passed ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"}`}>
+              {report.passed ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+              <span className="font-medium">{report.passed ? "Passed" : "Failed"}</span>
+              <span>
+                {report.error ?? `${report.profileName} - ${report.verification.filter(result => result.passed).length}/${report.verification.length} settings verified`}
+              </span>
+            </div>
+          )}
+
+          {report.steps.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Setting</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>Profile</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Read-back</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.steps.map((step) => {
+                  const verification = report.verification.find(result => result.key === step.key);
+                  return (
+                    <TableRow key={step.key}>
+                      <TableCell className="py-2 text-sm font-medium">{step.label}</TableCell>
+                      <TableCell className="py-2 font-mono text-xs break-all">{renderValue(step.key, step.previous)}</TableCell>
+                      <TableCell className="py-2 font-mono text-xs break-all">{renderValue(step.key, step.desired)}</TableCell>
+                      <TableCell className="py-2">
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[step.status]}`} title={step.error}>
+                          {step.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="py-2">
+                        {verification ? (
+                          verification.passed ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <span className="flex items-center gap-1 text-xs text-red-700 font-mono">
+                              <XCircle className="h-4 w-4 shrink-0" />
+                              {renderValue(step.key, verification.actual)}
+                            </span>
+                          )
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      <Dialog open={isProfileDialogOpen} onOpenChange={setIsProfileDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingProfile ? "Edit Profile" : "New Profile"}</DialogTitle>
+            <DialogDescription>
+              A complete MQTT configuration that can be applied to a device in one step.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...profileForm}>
+            <form onSubmit={profileForm.handleSubmit(onProfileSubmit)} className="space-y-3">
+              <FormField
+                control={profileForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Profile Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Production broker" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-3">
+                <FormField
+                  control={profileForm.control}
+                  name="host"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="broker.example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={profileForm.control}
+                  name="port"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Port</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={profileForm.control}
+                  name="clientId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Client ID</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={profileForm.control}
+                  name="payloadType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payload Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="0">Hex</SelectItem>
+                          <SelectItem value="5">JSON</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={profileForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={profileForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={profileForm.control}
+                  name="pubTopic"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Publish Topic</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={profileForm.control}
+                  name="subTopic"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Subscribe Topic</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsProfileDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save Profile</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+import sessionService, { SessionMessage } from "@/services/SessionService";
+import { useSessionMessages } from "@/hooks/use-session-messages";
+import { useAuth } from "@/hooks/use-auth";
+
+type SessionChatPanelProps = {
+  sessionId: string;
+  role: SessionMessage['sender'];
+  senderName: string;
+  // Observers can read along but not write
+  readOnly?: boolean;
+  className?: string;
+};
+
+// Chat with the other side of the session. Messages are stored with the session, never sent to the device
+export const SessionChatPanel = ({ sessionId, role, senderName, readOnly = false, className }: SessionChatPanelProps) => {
+  const { records: messages } = useSessionMessages(sessionId);
+  const { user } = useAuth();
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (scrollAreaRef.current) {
+      scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const sendMessage = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setIsSending(true);
+    const sent = await sessionService.sendMessage(sessionId, body, senderName, role);
+    setIsSending(false);
+
+    if (sent) {
+      setDraft("");
+    } else {
+      toast({
+        title: "Message Not Sent",
+        description: "Could not send your message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Chat
+        </CardTitle>
+        <CardDescription>
+          {role === 'support' ? "Talk to the user - messages are not sent to the device" : "Talk to the support technician"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ScrollArea className="h-64 border rounded" ref={scrollAreaRef}>
+          <div className="p-3 space-y-2">
+            {messages.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No messages yet</p>
+            ) : (
+              messages.map(message => {
+                const isOwn = message.sender_id === user?.id;
+                return (
+                  <div key={message.id} className={`flex flex-col ${isOwn ? "items-end" : "items-start"}`}>
+                    <div className={`max-w-[85%] rounded-lg px-3 py-1.5 text-sm break-words ${isOwn ? "bg-primary text-primary-foreground" : "bg-muted"}`}>
+                      {message.body}
+                    </div>
+                    <span className="text-[10px] text-muted-foreground mt-0.5">
+                      {isOwn ? "You" : message.sender_name} · {new Date(message.created_at).toLocaleTimeString()}
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && sendMessage()}
+            placeholder={readOnly ? "Observers cannot send messages" : "Type a message..."}
+            maxLength={2000}
+            disabled={readOnly}
+          />
+          <Button onClick={sendMessage} disabled={readOnly || isSending || !draft.trim()}>
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Bluetooth, FileText, Headphones, History, Loader2, Search, UserCircle } from "lucide-react";
+import sessionHistoryService, { ArchivedSession, SessionHistoryFilters } from "@/services/SessionHistoryService";
+import { SessionTranscriptDialog } from "@/components/SessionTranscriptDialog";
+import { getEndReasonOption } from "@/lib/sessionEnd";
+import { formatWaitTime } from "@/lib/sessionQueue";
+
+type HistoryFilterValues = {
+  user: string;
+  device: string;
+  agent: string;
+  // yyyy-mm-dd from the date inputs, both days inclusive
+  from: string;
+  to: string;
+};
+
+const emptyFilters: HistoryFilterValues = { user: "", device: "", agent: "", from: "", to: "" };
+
+function toServiceFilters(values: HistoryFilterValues): SessionHistoryFilters {
+  const to = values.to ? new Date(`${values.to}T00:00:00`) : null;
+  to?.setDate(to.getDate() + 1);
+  return {
+    user: values.user,
+    device: values.device,
+    agent: values.agent,
+    from: values.from ? new Date(`${values.from}T00:00:00`) : null,
+    to
+  };
+}
+
+// Closed sessions with their transcripts, for support to look back at what was done on a device
+export const SessionHistoryView = () => {
+  const [filters, setFilters] = useState<HistoryFilterValues>(emptyFilters);
+  const [sessions, setSessions] = useState<ArchivedSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const search = useCallback(async (values: HistoryFilterValues) => {
+    setIsLoading(true);
+    try {
+      setSessions(await sessionHistoryService.getSessions(toServiceFilters(values)));
+    } catch (error) {
+      toast({
+        title: "History Unavailable",
+        description: "Could not load past sessions. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    search(emptyFilters);
+  }, [search]);
+
+  const closeTranscript = useCallback(() => setOpenSessionId(null), []);
+
+  const setFilter = (key: keyof HistoryFilterValues, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    search(emptyFilters);
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <div className="bg-primary/10 p-2 rounded-full">
+            <History className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Session History</CardTitle>
+            <CardDescription className="mt-1">
+              Closed sessions and everything that was sent to and from the device
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            search(filters);
+          }}
+          className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6 items-end bg-slate-50 border rounded-lg p-3"
+        >
+          <div className="space-y-1">
+            <Label htmlFor="history-user" className="text-xs">User</Label>
+            <Input id="history-user" value={filters.user} onChange={(e) => setFilter("user", e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-device" className="text-xs">Device</Label>
+            <Input id="history-device" value={filters.device} onChange={(e) => setFilter("device", e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-agent" className="text-xs">Agent</Label>
+            <Input id="history-agent" value={filters.agent} onChange={(e) => setFilter("agent", e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-from" className="text-xs">From</Label>
+            <Input id="history-from" type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to" className="text-xs">To</Label>
+            <Input id="history-to" type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} className="h-8" />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" className="h-8 gap-1.5 flex-1" disabled={isLoading}>
+              <Search className="h-3.5 w-3.5" />
+              Search
+            </Button>
+            <Button type="button" variant="outline" size="sm" className="h-8" onClick={clearFilters}>
+              Clear
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-40">
+            <div className="flex flex-col items-center gap-2">
+              <Loader2 className="h-8 w-8 text-primary animate-spin" />
+              <p className="text-sm text-muted-foreground">Loading past sessions...</p>
+            </div>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No closed sessions match these filters.</p>
+        ) : (
+          <div className="grid gap-2">
+            {sessions.map(session => (
+              <div key={session.id} className="border rounded-lg p-3 flex items-center justify-between gap-3 hover:border-primary/30 transition-colors">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium truncate">{session.name}</h3>
+                    {session.endReason && (
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${getEndReasonOption(session.endReason).badgeClassName}`}>
+                        {getEndReasonOption(session.endReason).label}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1.5">
+                      <UserCircle className="h-3.5 w-3.5" />
+                      {session.user}
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <Bluetooth className="h-3.5 w-3.5" />
+                      {session.device}
+                      {session.deviceType && (
+                        <span className="bg-slate-100 text-slate-700 text-xs px-2 py-0.5 rounded-full">{session.deviceType}</span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <Headphones className="h-3.5 w-3.5" />
+                      {session.agentName || "No agent"}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {session.startTime.toLocaleString()}
+                    {session.endedAt && ` · ${formatWaitTime(Math.floor((session.endedAt.getTime() - session.startTime.getTime()) / 1000))}`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" className="h-8 gap-1.5 shrink-0" onClick={() => setOpenSessionId(session.id)}>
+                  <FileText className="h-4 w-4" />
+                  Transcript
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <SessionTranscriptDialog sessionId={openSessionId} onClose={closeTranscript} />
+    </Card>
+  );
+};
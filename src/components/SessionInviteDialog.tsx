@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import sessionService, { SupportAgent } from "@/services/SessionService";
+
+type SessionInviteDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionName: string;
+  // Resolves to false when the invite was rejected, keeping the dialog open
+  onInvite: (agent: SupportAgent) => Promise<boolean>;
+};
+
+// Let another agent watch the session read-only, e.g. to help out or to learn
+export const SessionInviteDialog = ({ open, onOpenChange, sessionName, onInvite }: SessionInviteDialogProps) => {
+  const [agents, setAgents] = useState<SupportAgent[]>([]);
+  const [isLoadingAgents, setIsLoadingAgents] = useState(false);
+  const [agentId, setAgentId] = useState<string>("");
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setAgentId("");
+    setIsLoadingAgents(true);
+    sessionService.getSupportAgents().then(result => {
+      setAgents(result);
+      setIsLoadingAgents(false);
+    });
+  }, [open]);
+
+  const invite = async () => {
+    const agent = agents.find(candidate => candidate.id === agentId);
+    if (!agent) return;
+
+    setIsInviting(true);
+    const invited = await onInvite(agent);
+    setIsInviting(false);
+
+    if (invited) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite Observer</DialogTitle>
+          <DialogDescription>
+            Another support agent can watch {sessionName} read-only. The session shows up in their list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Select value={agentId} onValueChange={setAgentId} disabled={isLoadingAgents}>
+            <SelectTrigger>
+              <SelectValue placeholder={isLoadingAgents ? "Loading agents..." : "Choose an agent"} />
+            </SelectTrigger>
+            <SelectContent>
+              {agents.map(agent => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!isLoadingAgents && agents.length === 0 && (
+            <p className="text-xs text-muted-foreground">There are no other support agents to invite.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={invite} disabled={!agentId || isInviting}>
+            {isInviting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Invite
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2, RefreshCw } from "lucide-react";
+import sessionService, { Session, SessionJoinCode } from "@/services/SessionService";
+
+type SessionJoinCodePanelProps = {
+  sessionId: string;
+};
+
+// Link a support agent can scan to open the dashboard with the code filled in
+function getJoinUrl(code: string): string {
+  return new URL(`${import.meta.env.BASE_URL}support?code=${encodeURIComponent(code)}`, window.location.origin).toString();
+}
+
+// The code and QR code the user gives to support. Shown while no agent has the session,
+// and reissued when an agent releases it back to the queue
+export const SessionJoinCodePanel = ({ sessionId }: SessionJoinCodePanelProps) => {
+  const [joinCode, setJoinCode] = useState<SessionJoinCode | null>(null);
+  const [isWaiting, setIsWaiting] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const { toast } = useToast();
+  const isExpired = joinCode !== null && joinCode.expiresAt <= now;
+  const secondsLeft = joinCode ? Math.max(0, Math.ceil((joinCode.expiresAt.getTime() - now.getTime()) / 1000)) : 0;
+
+  const createCode = useCallback(async () => {
+    setIsCreating(true);
+    const created = await sessionService.createJoinCode(sessionId);
+    setIsCreating(false);
+    setJoinCode(created);
+
+    if (!created) {
+      toast({
+        title: "No Join Code",
+        description: "Could not create a join code for your session. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [sessionId, toast]);
+
+  useEffect(() => {
+    const handleSessionsUpdate = (sessions: Session[]) => {
+      const session = sessions.find(candidate => candidate.id === sessionId);
+      if (session) {
+        setIsWaiting(!session.assignedAgentId);
+      }
+    };
+
+    sessionService.addSessionsListener(handleSessionsUpdate);
+    return () => sessionService.removeSessionsListener(handleSessionsUpdate);
+  }, [sessionId]);
+
+  // The code is used up once an agent joins; a released session needs a fresh one
+  useEffect(() => {
+    if (isWaiting) {
+      createCode();
+    } else {
+      setJoinCode(null);
+    }
+  }, [isWaiting, createCode]);
+
+  useEffect(() => {
+    if (!joinCode) return;
+    const intervalId = window.setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(intervalId);
+  }, [joinCode]);
+
+  if (!isWaiting) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded p-2 mb-2 space-y-2">
+      <p className="text-xs font-medium flex items-center gap-1.5">
+        <KeyRound className="h-3 w-3" />
+        Give this code to your support agent
+      </p>
+      {isCreating && !joinCode ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : joinCode && !isExpired ? (
+        <>
+          <div className="flex justify-center bg-white p-2 rounded">
+            <QRCodeSVG value={getJoinUrl(joinCode.code)} size={128} />
+          </div>
+          <p className="text-center font-mono text-2xl font-semibold tracking-[0.3em]">{joinCode.code}</p>
+          <p className="text-center text-xs text-muted-foreground">
+            Expires in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, "0")}. It works once.
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center py-2">
+          {joinCode ? "This code has expired." : "No join code yet."}
+        </p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={createCode}
+        disabled={isCreating}
+        className="w-full text-xs h-7"
+      >
+        <RefreshCw className={`h-3 w-3 mr-1.5 ${isCreating ? "animate-spin" : ""}`} />
+        New Code
+      </Button>
+    </div>
+  );
+};
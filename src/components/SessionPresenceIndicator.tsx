@@ -0,0 +1,66 @@
+import { Bluetooth, BluetoothOff, Eye, Headphones, UserCircle } from "lucide-react";
+import type { SessionPresence } from "@/services/RealtimeSyncService";
+
+type SessionPresenceIndicatorProps = {
+  // Participants other than ourselves
+  others: SessionPresence[];
+  // Whose presence we are waiting for
+  expectedRole: SessionPresence['role'];
+};
+
+const roleLabels: Record<SessionPresence['role'], string> = {
+  user: "User",
+  support: "Support",
+  observer: "Observer",
+};
+
+// Shows who else is in the session, and for the user whether their device is connected
+export const SessionPresenceIndicator = ({ others, expectedRole }: SessionPresenceIndicatorProps) => {
+  const present = others.filter(presence => presence.role === expectedRole);
+  const observers = others.filter(presence => presence.role === 'observer');
+
+  const observerBadge = observers.length > 0 && (
+    <div
+      className="flex items-center gap-1 text-xs bg-slate-100 text-slate-700 px-2 py-1 rounded-full"
+      title={observers.map(observer => observer.name).join(", ")}
+    >
+      <Eye className="h-3 w-3" />
+      {observers.length} observing
+    </div>
+  );
+
+  if (present.length === 0) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1.5 text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full">
+          <span className="h-2 w-2 rounded-full bg-slate-400" />
+          <span>{expectedRole === 'support' ? "No technician watching" : "User offline"}</span>
+        </div>
+        {observerBadge}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {present.map(presence => (
+        <div
+          key={`${presence.userId}-${presence.onlineAt}`}
+          className="flex items-center gap-1.5 text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full"
+          title={`${roleLabels[presence.role]} online since ${new Date(presence.onlineAt).toLocaleTimeString()}`}
+        >
+          <span className="h-2 w-2 rounded-full bg-green-500" />
+          {presence.role === 'support' ? <Headphones className="h-3 w-3" /> : <UserCircle className="h-3 w-3" />}
+          <span>{presence.name}</span>
+          {presence.role === 'user' && (
+            presence.deviceConnected
+              ? <Bluetooth className="h-3 w-3" aria-label="Device connected" />
+              : <BluetoothOff className="h-3 w-3 text-amber-600" aria-label="Device disconnected" />
+          )}
+          {presence.typing && <span className="italic text-green-600">typing...</span>}
+        </div>
+      ))}
+      {observerBadge}
+    </div>
+  );
+};
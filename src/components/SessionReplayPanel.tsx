@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import type { SessionTranscript } from "@/services/SessionHistoryService";
+import { SessionTranscriptEntry } from "@/components/SessionTranscriptEntry";
+import {
+  buildReplayTimeline,
+  formatReplayTime,
+  getItemsUpTo,
+  REPLAY_MARKER_STYLES,
+  REPLAY_SPEEDS,
+  ReplayMarkerKind
+} from "@/lib/sessionReplay";
+
+type SessionReplayPanelProps = {
+  transcript: SessionTranscript;
+};
+
+// How often the replay clock advances while playing
+const TICK_MS = 100;
+
+// Plays an archived session back in the monitor with its original timing
+export const SessionReplayPanel = ({ transcript }: SessionReplayPanelProps) => {
+  const timeline = useMemo(() => buildReplayTimeline(transcript), [transcript]);
+  const [positionMs, setPositionMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const visibleItems = getItemsUpTo(timeline, positionMs);
+  const visibleCommands = visibleItems.flatMap(item => item.type === 'command' ? [item.entry] : []);
+  const replayNow = new Date(timeline.startTime.getTime() + positionMs);
+  const isAtEnd = positionMs >= timeline.durationMs;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let last = performance.now();
+    const intervalId = window.setInterval(() => {
+      const now = performance.now();
+      const elapsed = (now - last) * speed;
+      last = now;
+      setPositionMs(prev => Math.min(prev + elapsed, timeline.durationMs));
+    }, TICK_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isPlaying, speed, timeline]);
+
+  useEffect(() => {
+    if (isPlaying && isAtEnd) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, isAtEnd]);
+
+  useEffect(() => {
+    if (scrollAreaRef.current) {
+      scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
+    }
+  }, [visibleItems.length]);
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!isPlaying && isAtEnd) {
+      setPositionMs(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const restart = () => {
+    setPositionMs(0);
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ScrollArea className="h-[340px] bg-slate-950 text-green-400 font-mono text-sm p-3 rounded" ref={scrollAreaRef}>
+        {visibleItems.length > 0 ? (
+          <div className="space-y-1">
+            {visibleItems.map(item => item.type === 'command' ? (
+              <div key={item.entry.id} className="py-0.5 leading-relaxed flex items-start gap-2">
+                <span className="text-slate-600 text-xs mt-0.5 shrink-0">{formatReplayTime(item.offsetMs)}</span>
+                <SessionTranscriptEntry entry={item.entry} entries={visibleCommands} now={replayNow} />
+              </div>
+            ) : (
+              <div key={item.event.id} className="py-0.5 leading-relaxed flex items-start gap-2">
+                <span className="text-slate-600 text-xs mt-0.5 shrink-0">{formatReplayTime(item.offsetMs)}</span>
+                <span className="text-orange-400 italic">— device {item.event.device_state} —</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-500 italic text-center py-8">
+            {timeline.items.length > 0 ? "Press play to replay the session" : "Nothing was sent or received in this session"}
+          </p>
+        )}
+      </ScrollArea>
+
+      <div className="space-y-1">
+        {/* Markers sit on a strip above the scrubber so they stay visible under the thumb */}
+        <div className="relative h-3">
+          {timeline.durationMs > 0 && timeline.markers.map((marker, index) => (
+            <button
+              key={index}
+              type="button"
+              className={`absolute top-0 h-3 w-1 -translate-x-1/2 rounded-sm ${REPLAY_MARKER_STYLES[marker.kind].className}`}
+              style={{ left: `${(marker.offsetMs / timeline.durationMs) * 100}%` }}
+              title={`${formatReplayTime(marker.offsetMs)} ${REPLAY_MARKER_STYLES[marker.kind].label}: ${marker.label}`}
+              onClick={() => setPositionMs(marker.offsetMs)}
+            />
+          ))}
+        </div>
+        <Slider
+          value={[positionMs]}
+          min={0}
+          max={Math.max(timeline.durationMs, 1)}
+          step={100}
+          onValueChange={([value]) => setPositionMs(value)}
+          disabled={timeline.durationMs === 0}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button size="sm" className="gap-1.5 w-24" onClick={togglePlaying} disabled={timeline.durationMs === 0}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            {isPlaying ? "Pause" : "Play"}
+          </Button>
+          <Button variant="outline" size="sm" onClick={restart} title="Back to the start">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+            <SelectTrigger className="h-8 w-20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPLAY_SPEEDS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option}x</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm font-mono text-muted-foreground">
+            {formatReplayTime(positionMs)} / {formatReplayTime(timeline.durationMs)}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {(Object.keys(REPLAY_MARKER_STYLES) as ReplayMarkerKind[]).map(kind => (
+            <span key={kind} className="flex items-center gap-1">
+              <span className={`inline-block h-2.5 w-1 rounded-sm ${REPLAY_MARKER_STYLES[kind].className}`} />
+              {REPLAY_MARKER_STYLES[kind].label}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
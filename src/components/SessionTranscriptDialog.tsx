@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import sessionHistoryService, { SessionTranscript } from "@/services/SessionHistoryService";
+import { SessionTranscriptEntry } from "@/components/SessionTranscriptEntry";
+import { DeviceConfigTable } from "@/components/DeviceConfigTable";
+import { TranscriptExportMenu } from "@/components/TranscriptExportMenu";
+import { SessionReplayPanel } from "@/components/SessionReplayPanel";
+import { getEndReasonOption } from "@/lib/sessionEnd";
+
+type SessionTranscriptDialogProps = {
+  // The archived session to show, null when the dialog is closed
+  sessionId: string | null;
+  onClose: () => void;
+};
+
+// Read-only view of an archived session: the monitor transcript and its replay, the chat and the device configuration
+export const SessionTranscriptDialog = ({ sessionId, onClose }: SessionTranscriptDialogProps) => {
+  const [transcript, setTranscript] = useState<SessionTranscript | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const session = transcript?.session;
+  const firstSnapshot = transcript?.snapshots[0];
+  const lastSnapshot = transcript?.snapshots[transcript.snapshots.length - 1];
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let isCurrent = true;
+    setTranscript(null);
+    setIsLoading(true);
+    sessionHistoryService.getTranscript(sessionId)
+      .then(result => {
+        if (isCurrent) setTranscript(result);
+      })
+      .catch(() => {
+        if (!isCurrent) return;
+        toast({
+          title: "Transcript Unavailable",
+          description: "Could not load this session from the archive.",
+          variant: "destructive",
+        });
+        onClose();
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [sessionId, toast, onClose]);
+
+  return (
+    <Dialog open={sessionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {session?.name ?? "Session Transcript"}
+            {session?.endReason && (
+              <span className={`text-xs font-normal px-2 py-0.5 rounded-full ${getEndReasonOption(session.endReason).badgeClassName}`}>
+                {getEndReasonOption(session.endReason).label}
+              </span>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {session
+              ? `${session.user} · ${session.device}${session.agentName ? ` · helped by ${session.agentName}` : ""} · ${session.startTime.toLocaleString()}${session.endedAt ? ` - ${session.endedAt.toLocaleTimeString()}` : ""}`
+              : "Loading the archived session..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !transcript ? (
+          <div className="flex justify-center items-center h-40">
+            <Loader2 className="h-8 w-8 text-primary animate-spin" />
+          </div>
+        ) : (
+          <Tabs defaultValue="transcript">
+            <div className="flex items-center justify-between gap-2">
+              <TabsList>
+                <TabsTrigger value="transcript">Transcript ({transcript.commands.length})</TabsTrigger>
+                <TabsTrigger value="replay">Replay</TabsTrigger>
+                <TabsTrigger value="chat">Chat ({transcript.messages.length})</TabsTrigger>
+                <TabsTrigger value="config">Configuration</TabsTrigger>
+              </TabsList>
+              <TranscriptExportMenu sessionId={transcript.session.id} />
+            </div>
+
+            <TabsContent value="transcript">
+              <ScrollArea className="h-[400px] bg-slate-950 text-green-400 font-mono text-sm p-3 rounded">
+                {transcript.commands.length > 0 ? (
+                  <div className="space-y-1">
+                    {transcript.commands.map((entry) => (
+                      <div key={entry.id} className="py-0.5 leading-relaxed flex items-start gap-2">
+                        <span className="text-slate-600 text-xs mt-0.5 shrink-0">
+                          {new Date(entry.timestamp).toLocaleTimeString()}
+                        </span>
+                        <SessionTranscriptEntry entry={entry} entries={transcript.commands} />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-slate-500 italic text-center py-8">Nothing was sent or received in this session</p>
+                )}
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="replay">
+              <SessionReplayPanel transcript={transcript} />
+            </TabsContent>
+
+            <TabsContent value="chat">
+              <ScrollArea className="h-[400px] border rounded">
+                <div className="p-3 space-y-2">
+                  {transcript.messages.length > 0 ? (
+                    transcript.messages.map(message => (
+                      <div key={message.id} className="text-sm">
+                        <span className="text-xs text-muted-foreground mr-2">
+                          {new Date(message.created_at).toLocaleTimeString()}
+                        </span>
+                        <span className="font-medium mr-1.5">{message.sender_name}:</span>
+                        <span className="break-words">{message.body}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-8">No chat messages</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="config">
+              {lastSnapshot ? (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Last read at {lastSnapshot.capturedAt.toLocaleTimeString()}
+                    {firstSnapshot && firstSnapshot.id !== lastSnapshot.id && `, compared to the first read at ${firstSnapshot.capturedAt.toLocaleTimeString()}`}
+                  </p>
+                  <DeviceConfigTable
+                    config={lastSnapshot.config}
+                    compareTo={firstSnapshot && firstSnapshot.id !== lastSnapshot.id ? firstSnapshot.config : null}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  The device configuration was never read during this session.
+                </p>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
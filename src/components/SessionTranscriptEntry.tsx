@@ -0,0 +1,98 @@
+import type { SessionCommand } from "@/services/SessionService";
+import { ConsentDecision } from "@/lib/controlPolicy";
+import {
+  CommandStatus,
+  COMMAND_COMPLETION_TIMEOUT_MS,
+  COMMAND_PICKUP_TIMEOUT_MS,
+  isCompletionOverdue,
+  isPickupOverdue
+} from "@/lib/commandStatus";
+import { redactSecretConfigLine } from "@/lib/deviceConfig";
+
+// How the user's decision on a support command is shown in the monitor
+const consentStyles: Record<ConsentDecision | 'pending', { label: string; className: string }> = {
+  pending: { label: "awaiting approval", className: "text-slate-400 italic" },
+  'auto-approved': { label: "auto-run", className: "text-slate-500" },
+  approved: { label: "approved", className: "text-green-500" },
+  denied: { label: "denied by user", className: "text-red-400" },
+  expired: { label: "not answered", className: "text-amber-400" }
+};
+
+const statusStyles: Record<CommandStatus | 'overdue' | 'stalled', { label: string; className: string; title: string }> = {
+  queued: { label: "queued", className: "bg-slate-700/50 text-slate-300", title: "Waiting for the user's client to pick it up" },
+  delivered: { label: "delivered", className: "bg-blue-900/40 text-blue-300", title: "The user's client has the command" },
+  executed: { label: "executed", className: "bg-green-900/40 text-green-300", title: "The device answered OK" },
+  failed: { label: "failed", className: "bg-red-900/40 text-red-300", title: "The command did not complete" },
+  overdue: {
+    label: "not picked up",
+    className: "bg-amber-900/40 text-amber-300",
+    title: `No user client picked this up within ${COMMAND_PICKUP_TIMEOUT_MS / 1000}s - the user may have closed the app`
+  },
+  stalled: {
+    label: "stalled",
+    className: "bg-amber-900/40 text-amber-300",
+    title: `The user's client took this but did not finish it within ${COMMAND_COMPLETION_TIMEOUT_MS / 1000}s - the user may have closed the app while asked to approve it`
+  }
+};
+
+type SessionTranscriptEntryProps = {
+  entry: SessionCommand;
+  // The whole transcript, to show which command a device line answers
+  entries: SessionCommand[];
+  now?: Date;
+};
+
+// One line of a session transcript, as the support monitor shows it
+export const SessionTranscriptEntry = ({ entry, entries, now = new Date() }: SessionTranscriptEntryProps) => {
+  // Support's own AT+PWD=... rows keep the value so the device can run them, but it is never shown
+  const command = redactSecretConfigLine(entry.command);
+  if (entry.sender === 'support') {
+    // Waiting for approval only once a user client has the command
+    const consent = entry.consent
+      ? consentStyles[entry.consent as ConsentDecision]
+      : entry.status === 'delivered' ? consentStyles.pending : null;
+    const status = isPickupOverdue(entry, now)
+      ? statusStyles.overdue
+      : isCompletionOverdue(entry, now)
+        ? statusStyles.stalled
+        : entry.status ? statusStyles[entry.status as CommandStatus] : null;
+    return (
+      <div className="flex items-start gap-1.5">
+        <span className="bg-blue-900/30 text-blue-400 px-1.5 py-0.5 rounded text-xs font-semibold mt-0.5">SUPPORT</span>
+        <span className="text-blue-400 whitespace-pre-wrap">{command}</span>
+        {status && (
+          <span
+            className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase mt-0.5 ${status.className}`}
+            title={entry.status_detail ?? status.title}
+          >
+            {status.label}
+          </span>
+        )}
+        {consent && <span className={`text-xs mt-0.5 ${consent.className}`}>{consent.label}</span>}
+      </div>
+    );
+  } else if (entry.sender === 'user') {
+    return (
+      <div className="flex items-start gap-1.5">
+        <span className="bg-yellow-900/30 text-yellow-400 px-1.5 py-0.5 rounded text-xs font-semibold mt-0.5">USER</span>
+        <span className="text-yellow-400 whitespace-pre-wrap">{command}</span>
+      </div>
+    );
+  } else if (entry.sender === 'device') {
+    // Show which command this line answers when the device side could correlate it
+    const request = entry.in_reply_to ? entries.find(cmd => cmd.id === entry.in_reply_to) : undefined;
+    return (
+      <div className="flex items-start gap-1.5">
+        <span className="bg-green-900/30 text-green-400 px-1.5 py-0.5 rounded text-xs font-semibold mt-0.5">DEVICE</span>
+        <span className="text-green-400 whitespace-pre-wrap">{command}</span>
+        {request && (
+          <span className="text-slate-500 text-xs mt-0.5" title={`Response to ${redactSecretConfigLine(request.command)}`}>
+            ↳ {redactSecretConfigLine(request.command)}
+          </span>
+        )}
+      </div>
+    );
+  } else {
+    return <span className="whitespace-pre-wrap">{command}</span>;
+  }
+};
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import sessionService, { SupportAgent } from "@/services/SessionService";
+
+type SessionTransferDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionName: string;
+  // Resolves to false when the transfer was rejected, keeping the dialog open
+  onTransfer: (agent: SupportAgent, note: string) => Promise<boolean>;
+};
+
+// Pick another agent to take over the session and leave them a note on where things stand
+export const SessionTransferDialog = ({ open, onOpenChange, sessionName, onTransfer }: SessionTransferDialogProps) => {
+  const [agents, setAgents] = useState<SupportAgent[]>([]);
+  const [isLoadingAgents, setIsLoadingAgents] = useState(false);
+  const [agentId, setAgentId] = useState<string>("");
+  const [note, setNote] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setAgentId("");
+    setNote("");
+    setIsLoadingAgents(true);
+    sessionService.getSupportAgents().then(result => {
+      setAgents(result);
+      setIsLoadingAgents(false);
+    });
+  }, [open]);
+
+  const transfer = async () => {
+    const agent = agents.find(candidate => candidate.id === agentId);
+    if (!agent) return;
+
+    setIsTransferring(true);
+    const transferred = await onTransfer(agent, note);
+    setIsTransferring(false);
+
+    if (transferred) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer Session</DialogTitle>
+          <DialogDescription>
+            Hand {sessionName} to another support agent. You can keep watching as an observer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Select value={agentId} onValueChange={setAgentId} disabled={isLoadingAgents}>
+            <SelectTrigger>
+              <SelectValue placeholder={isLoadingAgents ? "Loading agents..." : "Choose an agent"} />
+            </SelectTrigger>
+            <SelectContent>
+              {agents.map(agent => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!isLoadingAgents && agents.length === 0 && (
+            <p className="text-xs text-muted-foreground">There are no other support agents to transfer to.</p>
+          )}
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What has been tried so far, what is left to do..."
+            rows={4}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={transfer} disabled={!agentId || isTransferring}>
+            {isTransferring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, Eye, ShieldQuestion } from "lucide-react";
+import { findAtCommandForLine } from "@/lib/atCommands";
+import { redactSecretConfigLine } from "@/lib/deviceConfig";
+import { CONSENT_TIMEOUT_SECONDS, ConsentDecision } from "@/lib/controlPolicy";
+
+export interface ConsentRequest {
+  id: string; // session_commands row id
+  command: string;
+}
+
+type SupportCommandConsentDialogProps = {
+  request: ConsentRequest | null;
+  // Requests still waiting behind this one
+  queuedCount: number;
+  onDecision: (request: ConsentRequest, decision: Extract<ConsentDecision, 'approved' | 'denied' | 'expired'>) => void;
+};
+
+// Asks the user before a support command reaches the device. Unanswered requests expire
+export const SupportCommandConsentDialog = ({ request, queuedCount, onDecision }: SupportCommandConsentDialogProps) => {
+  const [secondsLeft, setSecondsLeft] = useState(CONSENT_TIMEOUT_SECONDS);
+  // The countdown restarts per request, not whenever the parent re-renders with a new callback
+  const onDecisionRef = useRef(onDecision);
+  onDecisionRef.current = onDecision;
+
+  useEffect(() => {
+    if (!request) return;
+
+    setSecondsLeft(CONSENT_TIMEOUT_SECONDS);
+    const startedAt = Date.now();
+
+    const intervalId = window.setInterval(() => {
+      const remaining = CONSENT_TIMEOUT_SECONDS - Math.floor((Date.now() - startedAt) / 1000);
+      if (remaining <= 0) {
+        clearInterval(intervalId);
+        onDecisionRef.current(request, 'expired');
+      } else {
+        setSecondsLeft(remaining);
+      }
+    }, 250);
+
+    return () => clearInterval(intervalId);
+  }, [request]);
+
+  if (!request) return null;
+
+  const definition = findAtCommandForLine(request.command);
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ShieldQuestion className="h-5 w-5 text-blue-600" />
+            Support wants to run a command
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The support agent asked to send this command to your device. Only approve it if you expected it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <code className="block bg-muted px-3 py-2 rounded font-mono text-sm break-all">{redactSecretConfigLine(request.command)}</code>
+
+          {definition ? (
+            <div className="flex items-start gap-2">
+              {definition.readOnly ? (
+                <span className="inline-flex items-center gap-1 bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full shrink-0">
+                  <Eye className="h-3 w-3" />
+                  Read-only
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 bg-amber-100 text-amber-700 text-xs px-2 py-0.5 rounded-full shrink-0">
+                  <AlertTriangle className="h-3 w-3" />
+                  Changes device
+                </span>
+              )}
+              <p className="text-xs text-muted-foreground">{definition.description}</p>
+            </div>
+          ) : (
+            <p className="text-xs text-amber-700 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Unknown command - it may change your device
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <Progress value={(secondsLeft / CONSENT_TIMEOUT_SECONDS) * 100} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">
+              Denied automatically in {secondsLeft}s
+              {queuedCount > 0 && ` · ${queuedCount} more waiting`}
+            </p>
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => onDecision(request, 'denied')}>
+            Deny
+          </Button>
+          <Button onClick={() => onDecision(request, 'approved')}>
+            Approve
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
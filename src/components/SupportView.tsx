@@ -1,24 +1,81 @@
 import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
-import { Send, UserCircle, Users, RefreshCw, Loader2, Trash2, Bluetooth, Share2, AlertTriangle, Terminal } from "lucide-react";
-import sessionService, { Session } from "@/services/SessionService";
+import { Send, UserCircle, Users, RefreshCw, Loader2, Trash2, Bluetooth, Share2, AlertTriangle, Terminal, Settings, Eye, ArrowRightLeft, LogOut, Headphones, KeyRound, UserPlus, ListStart } from "lucide-react";
+import sessionService, { Session, ConfigSnapshot, SupportAgent, toConfigSnapshot } from "@/services/SessionService";
+import { useSessionCommands } from "@/hooks/use-session-commands";
+import { useIsTyping, useSessionPresence } from "@/hooks/use-session-presence";
+import { useWaitingSummary } from "@/hooks/use-waiting-summary";
+import { useAuth } from "@/hooks/use-auth";
+import { SessionPresenceIndicator } from "@/components/SessionPresenceIndicator";
+import { SessionChatPanel } from "@/components/SessionChatPanel";
+import { SessionTransferDialog } from "@/components/SessionTransferDialog";
+import { SessionInviteDialog } from "@/components/SessionInviteDialog";
+import { SessionTranscriptEntry } from "@/components/SessionTranscriptEntry";
+import { TranscriptExportMenu } from "@/components/TranscriptExportMenu";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { AtCommandForm } from "@/components/AtCommandForm";
+import { validateAtCommandLine } from "@/lib/atCommands";
+import { getControlPolicyLabel } from "@/lib/controlPolicy";
+import { DeviceConfigTable } from "@/components/DeviceConfigTable";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatWaitTime, getPriorityOption, getWaitTime, SESSION_PRIORITIES, SessionPriority } from "@/lib/sessionQueue";
+import { getEndReasonOption, SessionEndReason } from "@/lib/sessionEnd";
 
 export const SupportView = () => {
   const [activeSessions, setActiveSessions] = useState<Session[]>([]);
   const [connectedSession, setConnectedSession] = useState<string | null>(null);
-  const [serialOutput, setSerialOutput] = useState<string[]>([]);
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [deviceTypeFilter, setDeviceTypeFilter] = useState<string>("all");
+  // Scanning the user's QR code opens the dashboard with their code filled in
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [joinCode, setJoinCode] = useState(searchParams.get("code") ?? "");
+  const [isJoining, setIsJoining] = useState(false);
+  const [isClaimingNext, setIsClaimingNext] = useState(false);
   const [command, setCommand] = useState("");
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
+  const [configSnapshots, setConfigSnapshots] = useState<ConfigSnapshot[]>([]);
+  // Snapshot the latest configuration is compared against, defaults to the first one of the session
+  const [baselineSnapshotId, setBaselineSnapshotId] = useState<string | null>(null);
+  // Ticks so the longest wait stays current and queued commands get flagged once their pickup timeout passes
+  const [now, setNow] = useState(new Date());
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Sessions whose end was already announced with its reason
+  const announcedEndsRef = useRef<Set<string>>(new Set());
   const { toast } = useToast();
+  const { records: serialOutput, status: syncStatus } = useSessionCommands(connectedSession);
+  const { user, profile } = useAuth();
+  const isTyping = useIsTyping(command);
+  const connectedSessionInfo = activeSessions.find(s => s.id === connectedSession);
+  const deviceTypes = Array.from(new Set(activeSessions.map(s => s.deviceType).filter(Boolean))).sort();
+  const visibleSessions = activeSessions.filter(s => deviceTypeFilter === "all" || s.deviceType === deviceTypeFilter);
+  // Agents only see sessions they handle or observe. The queue itself is only counted, see takeNextSession
+  const waitingSummary = useWaitingSummary();
+  const waitingCount = waitingSummary.reduce((total, entry) => total + entry.waitingCount, 0);
+  const oldestQueuedAt = waitingSummary.reduce<Date | null>(
+    (oldest, entry) => !oldest || entry.oldestQueuedAt < oldest ? entry.oldestQueuedAt : oldest,
+    null
+  );
+  const listedSessions = [...visibleSessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  // Anyone but the assigned agent is watching read-only
+  const isObserving = Boolean(connectedSessionInfo && connectedSessionInfo.assignedAgentId !== user?.id);
+  const presenceOthers = useSessionPresence(connectedSession, user ? {
+    userId: user.id,
+    name: profile?.displayName || profile?.email || "Support",
+    role: isObserving ? 'observer' : 'support',
+    deviceConnected: false,
+    typing: isTyping
+  } : null);
+  const isDeviceReconnecting = connectedSessionInfo?.deviceState === 'reconnecting';
+  const latestSnapshot = configSnapshots[configSnapshots.length - 1];
+  const baselineSnapshot = configSnapshots.find(snapshot => snapshot.id === baselineSnapshotId) ?? configSnapshots[0];
 
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -36,13 +93,14 @@ export const SupportView = () => {
       setIsLoading(false);
 
       if (connectedSession && !sessions.some(s => s.id === connectedSession)) {
-        toast({
-          title: "Session Ended",
-          description: "The user has ended the support session.",
-          variant: "destructive",
-        });
+        if (!announcedEndsRef.current.has(connectedSession)) {
+          toast({
+            title: "Session Ended",
+            description: "The user has ended the support session.",
+            variant: "destructive",
+          });
+        }
         setConnectedSession(null);
-        setSerialOutput([]);
       }
     };
 
@@ -64,82 +122,60 @@ export const SupportView = () => {
     };
   }, [connectedSession, toast]);
 
-  const refreshCommands = async () => {
-    if (!connectedSession) return;
+  useEffect(() => {
+    const handleSessionEnded = (session: Session, reason: SessionEndReason) => {
+      // Only interrupt for sessions we are in or responsible for
+      if (session.id !== connectedSession && session.assignedAgentId !== user?.id) return;
 
-    try {
-      console.log(`Refreshing commands for session: ${connectedSession}`);
-      const { data, error } = await supabase
-        .from('session_commands')
-        .select('*')
-        .eq('session_id', connectedSession)
-        .order('timestamp', { ascending: true });
+      announcedEndsRef.current.add(session.id);
+      toast({
+        title: reason === 'timed_out' ? "Session Timed Out" : "Session Ended",
+        description: `${session.name}: ${getEndReasonOption(reason).description}`,
+        variant: "destructive",
+      });
+    };
 
-      if (error) {
-        console.error("Error refreshing commands:", error);
-        return;
-      }
+    sessionService.addSessionEndedListener(handleSessionEnded);
+    return () => sessionService.removeSessionEndedListener(handleSessionEnded);
+  }, [connectedSession, user, toast]);
 
-      if (data && data.length > 0) {
-        const commandOutput = data.map(cmd =>
-          cmd.sender === 'support'
-            ? `Support sent: ${cmd.command}`
-            : cmd.sender === 'user'
-              ? `User sent: ${cmd.command}`
-              : `Device response: ${cmd.command}`
-        );
-        setSerialOutput(commandOutput);
-        setLastRefreshTime(new Date());
-      }
-    } catch (error) {
-      console.error("Error in refreshCommands:", error);
-    }
-  };
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
 
   useEffect(() => {
-    if (connectedSession) {
-      refreshCommands();
-
-      refreshIntervalRef.current = setInterval(() => {
-        refreshCommands();
-      }, 1000);
-
-      const channel = supabase
-        .channel('session-commands')
-        .on('postgres_changes', {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'session_commands',
-          filter: `session_id=eq.${connectedSession}`
-        }, (payload) => {
-          console.log("Real-time command update received:", payload);
-          const newCommand = payload.new as any;
-          let formattedCommand = '';
-
-          if (newCommand.sender === 'support') {
-            formattedCommand = `Support sent: ${newCommand.command}`;
-          } else if (newCommand.sender === 'user') {
-            formattedCommand = `User sent: ${newCommand.command}`;
-          } else if (newCommand.sender === 'device') {
-            formattedCommand = `Device response: ${newCommand.command}`;
-          }
+    if (!connectedSession) return;
 
-          setSerialOutput(prev => [...prev, formattedCommand]);
-        })
-        .subscribe((status) => {
-          console.log(`Subscription status for session commands: ${status}`);
-        });
+    setConfigSnapshots([]);
+    setBaselineSnapshotId(null);
 
-      return () => {
-        console.log("Cleaning up subscription and refresh interval");
-        supabase.removeChannel(channel);
+    sessionService.getConfigSnapshots(connectedSession).then(snapshots => {
+      setConfigSnapshots(prev => {
+        // Keep anything the subscription delivered while the fetch was in flight
+        const fetchedIds = new Set(snapshots.map(snapshot => snapshot.id));
+        return [...snapshots, ...prev.filter(snapshot => !fetchedIds.has(snapshot.id))];
+      });
+    });
 
-        if (refreshIntervalRef.current) {
-          clearInterval(refreshIntervalRef.current);
-          refreshIntervalRef.current = null;
-        }
-      };
-    }
+    const channel = supabase
+      .channel('session-config-snapshots')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'session_config_snapshots',
+        filter: `session_id=eq.${connectedSession}`
+      }, (payload) => {
+        const snapshot = toConfigSnapshot(payload.new as Tables<'session_config_snapshots'>);
+        setConfigSnapshots(prev => prev.some(existing => existing.id === snapshot.id) ? prev : [...prev, snapshot]);
+      })
+      .subscribe((status) => {
+        console.log(`Subscription status for config snapshots: ${status}`);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [connectedSession]);
 
   const refreshSessions = async () => {
@@ -165,7 +201,7 @@ export const SupportView = () => {
     }
   };
 
-  const deleteSession = async (sessionId: string) => {
+  const endSession = async (sessionId: string) => {
     try {
       const session = await sessionService.getSession(sessionId);
       if (!session) {
@@ -177,7 +213,7 @@ export const SupportView = () => {
         return;
       }
 
-      if (!window.confirm(`Are you sure you want to delete the session for ${session.user}?`)) {
+      if (!window.confirm(`End the session for ${session.user}? Its transcript stays in the session history.`)) {
         return;
       }
 
@@ -185,28 +221,44 @@ export const SupportView = () => {
 
       if (success) {
         toast({
-          title: "Session Deleted",
-          description: `Session for ${session.user} has been deleted`,
+          title: "Session Ended",
+          description: `Session for ${session.user} has been ended and archived`,
         });
       } else {
         toast({
-          title: "Deletion Failed",
-          description: "Could not delete the session. Please try again.",
+          title: "Ending Failed",
+          description: "Could not end the session. Please try again.",
           variant: "destructive",
         });
       }
     } catch (error) {
-      console.error("Error deleting session:", error);
+      console.error("Error ending session:", error);
       toast({
-        title: "Deletion Failed",
-        description: "Could not delete the session",
+        title: "Ending Failed",
+        description: "Could not end the session",
         variant: "destructive",
       });
     }
   };
 
-  const connectToSession = async (sessionId: string) => {
+  const connectToSession = async (sessionId: string, mode: 'claim' | 'observe' = 'claim') => {
     try {
+      // Only the assigned agent sends commands; observers get a read-only view.
+      // A session we are not in yet only becomes visible once we have joined it
+      const joined = mode === 'claim'
+        ? await sessionService.assignAgent(sessionId)
+        : await sessionService.observeSession(sessionId);
+      if (!joined) {
+        toast({
+          title: "Session Unavailable",
+          description: mode === 'claim'
+            ? "Another support agent is already handling this session"
+            : "Could not join the session as an observer",
+          variant: "destructive",
+        });
+        return;
+      }
+
       const session = await sessionService.getSession(sessionId);
       if (!session) {
         toast({
@@ -218,11 +270,12 @@ export const SupportView = () => {
       }
 
       setConnectedSession(sessionId);
-      setSerialOutput([]);
 
       toast({
-        title: "Connected to Session",
-        description: `You are now connected to ${session.name}`,
+        title: mode === 'claim' ? "Connected to Session" : "Observing Session",
+        description: mode === 'claim'
+          ? `You are now connected to ${session.name}`
+          : `You are watching ${session.name} read-only`,
       });
     } catch (error) {
       console.error("Error connecting to session:", error);
@@ -234,10 +287,76 @@ export const SupportView = () => {
     }
   };
 
+  // A join code claims the session. Observers are invited by the assigned agent instead
+  const joinSession = async () => {
+    const value = joinCode.trim();
+    if (!value) return;
+
+    setIsJoining(true);
+    try {
+      const session = await sessionService.joinSessionByCode(value);
+      if (!session) {
+        toast({
+          title: "Invalid Join Code",
+          description: "The code is wrong, has expired or was already used. Ask the user for a new one.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setConnectedSession(session.id);
+      toast({
+        title: "Connected to Session",
+        description: `You are now connected to ${session.name}`,
+      });
+    } finally {
+      setIsJoining(false);
+      setJoinCode("");
+      if (searchParams.has("code")) {
+        setSearchParams({}, { replace: true });
+      }
+    }
+  };
+
+  // Highest priority first, then whoever has waited longest - the position users see
+  const takeNextSession = async () => {
+    setIsClaimingNext(true);
+    try {
+      const session = await sessionService.claimNextSession();
+      if (!session) {
+        toast({
+          title: "Queue Empty",
+          description: "Nobody is waiting for an agent right now",
+        });
+        return;
+      }
+
+      setConnectedSession(session.id);
+      toast({
+        title: "Connected to Session",
+        description: `You are now connected to ${session.name}`,
+      });
+    } finally {
+      setIsClaimingNext(false);
+    }
+  };
+
+  const changePriority = async (session: Session, priority: SessionPriority) => {
+    if (!(await sessionService.setSessionPriority(session.id, priority))) {
+      toast({
+        title: "Priority Not Changed",
+        description: `Could not change the priority of ${session.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const disconnectSession = async () => {
     if (connectedSession) {
+      if (isObserving) {
+        sessionService.stopObservingSession(connectedSession);
+      }
       setConnectedSession(null);
-      setSerialOutput([]);
 
       toast({
         title: "Disconnected",
@@ -246,20 +365,87 @@ export const SupportView = () => {
     }
   };
 
-  const sendCommand = async () => {
-    if (command.trim() === "" || !connectedSession) return;
+  const releaseSession = async () => {
+    if (!connectedSession) return;
+
+    if (!(await sessionService.releaseSession(connectedSession))) {
+      toast({
+        title: "Release Failed",
+        description: "Could not put the session back in the queue",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setConnectedSession(null);
+    toast({
+      title: "Session Released",
+      description: "The session is back in the queue at its current priority.",
+    });
+  };
+
+  const transferSession = async (agent: SupportAgent, note: string): Promise<boolean> => {
+    if (!connectedSession) return false;
+
+    if (!(await sessionService.transferSession(connectedSession, agent.id, note))) {
+      toast({
+        title: "Transfer Failed",
+        description: `Could not hand the session to ${agent.name}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    // The transfer keeps us on as an observer so the new agent can ask questions
+    toast({
+      title: "Session Transferred",
+      description: `${agent.name} is now handling the session. You are observing.`,
+    });
+    return true;
+  };
+
+  const inviteObserver = async (agent: SupportAgent): Promise<boolean> => {
+    if (!connectedSession) return false;
+
+    if (!(await sessionService.inviteObserver(connectedSession, agent.id))) {
+      toast({
+        title: "Invite Failed",
+        description: `Could not invite ${agent.name} to observe`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "Observer Invited",
+      description: `${agent.name} can now watch the session`,
+    });
+    return true;
+  };
+
+  const sendCommand = async (commandText: string = command) => {
+    if (commandText.trim() === "" || !connectedSession || isObserving) return;
+
+    // Reject malformed parameters here rather than on the user's device
+    const validationError = validateAtCommandLine(commandText);
+    if (validationError) {
+      toast({
+        title: "Invalid Command",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
 
     try {
-      console.log(`Support sending command: ${command}`);
-      const timestamp = new Date().toISOString();
+      console.log(`Support sending command: ${commandText}`);
       const { error } = await supabase
         .from('session_commands')
         .insert([
           {
             session_id: connectedSession,
-            command: command,
-            sender: 'support',
-            timestamp: timestamp
+            command: commandText,
+            sender: 'support'
           }
         ]);
 
@@ -273,11 +459,13 @@ export const SupportView = () => {
         return;
       }
 
-      setCommand("");
+      if (commandText === command) {
+        setCommand("");
+      }
 
       toast({
-        title: "Command Sent",
-        description: "Command was sent to the device",
+        title: "Command Queued",
+        description: "Its status updates once the user's device picks it up",
       });
     } catch (error) {
       console.error("Error in sendCommand:", error);
@@ -289,33 +477,6 @@ export const SupportView = () => {
     }
   };
 
-  const renderSerialOutput = (line: string) => {
-    if (line.startsWith("Support sent:")) {
-      return (
-        <div className="flex items-start gap-1.5">
-          <span className="bg-blue-900/30 text-blue-400 px-1.5 py-0.5 rounded text-xs font-semibold mt-0.5">SUPPORT</span>
-          <span className="text-blue-400 whitespace-pre-wrap">{line.replace("Support sent: ", "")}</span>
-        </div>
-      );
-    } else if (line.startsWith("User sent:")) {
-      return (
-        <div className="flex items-start gap-1.5">
-          <span className="bg-yellow-900/30 text-yellow-400 px-1.5 py-0.5 rounded text-xs font-semibold mt-0.5">USER</span>
-          <span className="text-yellow-400 whitespace-pre-wrap">{line.replace("User sent: ", "")}</span>
-        </div>
-      );
-    } else if (line.startsWith("Device response:")) {
-      return (
-        <div className="flex items-start gap-1.5">
-          <span className="bg-green-900/30 text-green-400 px-1.5 py-0.5 rounded text-xs font-semibold mt-0.5">DEVICE</span>
-          <span className="text-green-400 whitespace-pre-wrap">{line.replace("Device response: ", "")}</span>
-        </div>
-      );
-    } else {
-      return <span className="whitespace-pre-wrap">{line}</span>;
-    }
-  };
-
   return (
     <div className="space-y-4">
       {!connectedSession ? (
@@ -329,7 +490,7 @@ export const SupportView = () => {
                 <div>
                   <CardTitle>Support Dashboard</CardTitle>
                   <CardDescription className="mt-1">
-                    Connect to user devices and provide remote assistance
+                    Take the next waiting session or join one with the user's code. Sessions you handle or observe are listed here
                   </CardDescription>
                 </div>
               </div>
@@ -357,10 +518,70 @@ export const SupportView = () => {
                   <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? "animate-spin" : ""}`} />
                   Refresh
                 </Button>
+                <Select value={deviceTypeFilter} onValueChange={setDeviceTypeFilter}>
+                  <SelectTrigger className="h-8 w-48 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All device types</SelectItem>
+                    {deviceTypes.map(deviceType => (
+                      <SelectItem key={deviceType} value={deviceType}>{deviceType}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-slate-50 border rounded-lg p-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {waitingCount > 0 ? (
+                  <>
+                    <span className="font-medium">{waitingCount} waiting</span>
+                    {waitingSummary.map(entry => (
+                      <span key={entry.priority} className={`text-xs px-2 py-0.5 rounded-full ${getPriorityOption(entry.priority).badgeClassName}`}>
+                        {entry.waitingCount} {getPriorityOption(entry.priority).label.toLowerCase()}
+                      </span>
+                    ))}
+                    {oldestQueuedAt && (
+                      <span className="text-muted-foreground">
+                        longest wait {formatWaitTime(getWaitTime(oldestQueuedAt, now))}
+                      </span>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">Nobody is waiting for an agent</span>
+                )}
+              </div>
+              <Button onClick={takeNextSession} disabled={isClaimingNext || waitingCount === 0} className="gap-1.5">
+                {isClaimingNext ? <Loader2 className="h-4 w-4 animate-spin" /> : <ListStart className="h-4 w-4" />}
+                Take Next
+              </Button>
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                joinSession();
+              }}
+              className="flex flex-col sm:flex-row gap-2 bg-slate-50 border rounded-lg p-3"
+            >
+              <div className="flex-1">
+                <Input
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value)}
+                  placeholder="Join code, e.g. K7MP2Q"
+                  className="font-mono uppercase"
+                  autoComplete="off"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Enter the code shown on the user's screen. To observe, ask the agent handling the session to invite you.
+                </p>
+              </div>
+              <Button type="submit" disabled={isJoining || !joinCode.trim()} className="gap-1.5">
+                {isJoining ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+                Join Session
+              </Button>
+            </form>
             {isLoading ? (
               <div className="flex justify-center items-center h-40">
                 <div className="flex flex-col items-center gap-2">
@@ -368,9 +589,13 @@ export const SupportView = () => {
                   <p className="text-sm text-muted-foreground">Loading sessions...</p>
                 </div>
               </div>
-            ) : activeSessions.length > 0 ? (
+            ) : activeSessions.length > 0 && listedSessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No sessions for this device type.
+              </p>
+            ) : listedSessions.length > 0 ? (
               <div className="grid gap-3">
-                {activeSessions.map((session) => (
+                {listedSessions.map((session) => (
                   <div
                     key={session.id}
                     className="border rounded-lg p-4 hover:border-primary/30 hover:shadow-sm transition-all group"
@@ -383,15 +608,54 @@ export const SupportView = () => {
                         <div>
                           <div className="flex items-center gap-2">
                             <h3 className="font-medium group-hover:text-primary transition-colors">{session.user}</h3>
-                            <span className="inline-flex items-center gap-1 bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full">
-                              <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
-                              Live
-                            </span>
+                            {session.deviceState === 'reconnecting' ? (
+                              <span className="inline-flex items-center gap-1 bg-amber-100 text-amber-700 text-xs px-2 py-0.5 rounded-full">
+                                <span className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-pulse"></span>
+                                Reconnecting
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center gap-1 bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full">
+                                <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
+                                Live
+                              </span>
+                            )}
                           </div>
                           <div className="mt-1 space-y-1">
+                            <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                              <Headphones className="h-3.5 w-3.5" />
+                              {!session.assignedAgentId ? (
+                                <span className="bg-amber-100 text-amber-700 text-xs px-2 py-0.5 rounded-full">Waiting for an agent</span>
+                              ) : session.assignedAgentId === user?.id ? (
+                                <>
+                                  <span className="bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full">Handled by you</span>
+                                  <Select value={session.priority} onValueChange={(value) => changePriority(session, value as SessionPriority)}>
+                                    <SelectTrigger className={`h-6 w-24 text-xs border-0 rounded-full ${getPriorityOption(session.priority).badgeClassName}`} title="Priority if the session goes back into the queue">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {SESSION_PRIORITIES.map(option => (
+                                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </>
+                              ) : (
+                                <span className="bg-blue-100 text-blue-700 text-xs px-2 py-0.5 rounded-full">
+                                  Handled by {session.assignedAgentName || "another agent"}
+                                </span>
+                              )}
+                            </p>
+                            {session.assignedAgentId === user?.id && session.handoffNote && (
+                              <p className="text-xs text-blue-700 bg-blue-50 border border-blue-100 rounded px-2 py-1">
+                                Handoff note: {session.handoffNote}
+                              </p>
+                            )}
                             <p className="text-sm text-muted-foreground flex items-center gap-1.5">
                               <Bluetooth className="h-3.5 w-3.5" />
                               <span>{session.device}</span>
+                              {session.deviceType && (
+                                <span className="bg-slate-100 text-slate-700 text-xs px-2 py-0.5 rounded-full">{session.deviceType}</span>
+                              )}
                             </p>
                             <p className="text-sm text-muted-foreground flex items-center gap-1.5">
                               <RefreshCw className="h-3.5 w-3.5" />
@@ -420,23 +684,37 @@ export const SupportView = () => {
                         </div>
                       </div>
                       <div className="flex flex-col gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => deleteSession(session.id)}
-                          className="text-red-500 hover:text-red-700 hover:bg-red-50 h-8 px-3"
-                        >
-                          <Trash2 className="h-4 w-4 mr-1" />
-                          Delete
-                        </Button>
-                        <Button
-                          onClick={() => connectToSession(session.id)}
-                          className="gap-1.5 h-8"
-                          size="sm"
-                        >
-                          <Share2 className="h-4 w-4" />
-                          Connect
-                        </Button>
+                        {session.assignedAgentId === user?.id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => endSession(session.id)}
+                            className="text-red-500 hover:text-red-700 hover:bg-red-50 h-8 px-3"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            End
+                          </Button>
+                        )}
+                        {session.assignedAgentId && session.assignedAgentId !== user?.id ? (
+                          <Button
+                            variant="outline"
+                            onClick={() => connectToSession(session.id, 'observe')}
+                            className="gap-1.5 h-8"
+                            size="sm"
+                          >
+                            <Eye className="h-4 w-4" />
+                            Observe
+                          </Button>
+                        ) : (
+                          <Button
+                            onClick={() => connectToSession(session.id)}
+                            className="gap-1.5 h-8"
+                            size="sm"
+                          >
+                            <Share2 className="h-4 w-4" />
+                            {session.assignedAgentId ? "Resume" : "Claim"}
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -449,7 +727,7 @@ export const SupportView = () => {
                 </div>
                 <h3 className="text-lg font-medium text-slate-700 mb-1">No Active Sessions</h3>
                 <p className="text-sm text-slate-500 max-w-md mx-auto mb-4">
-                  There are no users currently sharing their devices. Users need to connect their Bluetooth device and start a sharing session.
+                  You are not handling or observing any sessions. Users need to connect their Bluetooth device and start a sharing session.
                 </p>
                 <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 max-w-md mx-auto text-left">
                   <h4 className="text-sm font-medium text-blue-800 mb-1 flex items-center gap-1.5">
@@ -459,8 +737,8 @@ export const SupportView = () => {
                   <ul className="text-xs text-blue-700 list-disc list-inside space-y-1">
                     <li>Ask the user to connect their Bluetooth device</li>
                     <li>Have them click "Share with Support" button</li>
-                    <li>They should provide you with the session ID</li>
-                    <li>Sessions will appear here automatically when shared</li>
+                    <li>They read out the join code or let you scan the QR code</li>
+                    <li>Enter the code above - it works once and expires after 10 minutes</li>
                   </ul>
                 </div>
                 <Button
@@ -488,14 +766,28 @@ export const SupportView = () => {
                   <div>
                     <div className="flex items-center gap-2">
                       <h2 className="font-medium text-green-800">Connected Support Session</h2>
-                      <span className="inline-flex items-center gap-1 bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full">
-                        <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
-                        Active
-                      </span>
+                      {isObserving ? (
+                        <span className="inline-flex items-center gap-1 bg-slate-100 text-slate-700 text-xs px-2 py-0.5 rounded-full">
+                          <Eye className="h-3 w-3" />
+                          Observing (read-only)
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full">
+                          <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
+                          Active
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-green-700 mt-1">
-                      You are providing remote support to this device
+                      {isObserving
+                        ? `${connectedSessionInfo?.assignedAgentName || "Another agent"} is handling this session. You can watch but not send commands.`
+                        : "You are providing remote support to this device"}
                     </p>
+                    {!isObserving && connectedSessionInfo?.handoffNote && (
+                      <p className="text-xs text-blue-700 bg-blue-50 border border-blue-100 rounded px-2 py-1 mt-2">
+                        Handoff note: {connectedSessionInfo.handoffNote}
+                      </p>
+                    )}
                     <div className="mt-2 flex items-center gap-2">
                       <span className="font-mono bg-green-100 px-2 py-0.5 rounded text-green-700 text-xs">
                         {connectedSession?.substring(0, 12)}...
@@ -519,18 +811,57 @@ export const SupportView = () => {
                     </div>
                   </div>
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={disconnectSession}
-                  className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
-                >
-                  Disconnect
-                </Button>
+                <div className="flex items-center gap-2">
+                  {connectedSession && <TranscriptExportMenu sessionId={connectedSession} />}
+                  {!isObserving && (
+                    <>
+                      <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setIsInviteDialogOpen(true)}>
+                        <UserPlus className="h-4 w-4" />
+                        Invite
+                      </Button>
+                      <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setIsTransferDialogOpen(true)}>
+                        <ArrowRightLeft className="h-4 w-4" />
+                        Transfer
+                      </Button>
+                      <Button variant="outline" size="sm" className="gap-1.5" onClick={releaseSession}>
+                        <LogOut className="h-4 w-4" />
+                        Release
+                      </Button>
+                    </>
+                  )}
+                  {isObserving && connectedSessionInfo && !connectedSessionInfo.assignedAgentId && (
+                    <Button size="sm" className="gap-1.5" onClick={() => connectToSession(connectedSessionInfo.id)}>
+                      <Share2 className="h-4 w-4" />
+                      Claim
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={disconnectSession}
+                    className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                  >
+                    Disconnect
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
 
+          <SessionTransferDialog
+            open={isTransferDialogOpen}
+            onOpenChange={setIsTransferDialogOpen}
+            sessionName={connectedSessionInfo?.name ?? "this session"}
+            onTransfer={transferSession}
+          />
+
+          <SessionInviteDialog
+            open={isInviteDialogOpen}
+            onOpenChange={setIsInviteDialogOpen}
+            sessionName={connectedSessionInfo?.name ?? "this session"}
+            onInvite={inviteObserver}
+          />
+
           <Card className="border-primary/20">
             <CardHeader className="pb-3">
               <div className="flex justify-between items-center">
@@ -546,11 +877,25 @@ export const SupportView = () => {
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  {lastRefreshTime && (
+                  <SessionPresenceIndicator others={presenceOthers} expectedRole="user" />
+                  {connectedSessionInfo && (
+                    <div
+                      className="text-xs bg-slate-100 text-slate-700 px-2 py-1 rounded-full"
+                      title="Set by the user - decides which of your commands run without their approval"
+                    >
+                      {getControlPolicyLabel(connectedSessionInfo.controlPolicy)}
+                    </div>
+                  )}
+                  {syncStatus === 'live' ? (
                     <div className="flex items-center gap-1.5 text-xs text-primary/70 bg-primary/5 px-2 py-1 rounded-full">
-                      <RefreshCw className="h-3 w-3 animate-spin" />
+                      <span className="h-2 w-2 rounded-full bg-green-500" />
                       <span>Live updates</span>
                     </div>
+                  ) : (
+                    <div className="flex items-center gap-1.5 text-xs text-amber-700 bg-amber-100 px-2 py-1 rounded-full">
+                      <RefreshCw className="h-3 w-3 animate-spin" />
+                      <span>{syncStatus === 'reconnecting' ? "Reconnecting..." : "Loading history..."}</span>
+                    </div>
                   )}
                 </div>
               </div>
@@ -567,10 +912,17 @@ export const SupportView = () => {
                     <p className="text-xs text-slate-400">Serial Output</p>
                   </div>
                   <div className="flex items-center gap-2">
-                    <div className="text-xs text-slate-400 flex items-center gap-1.5">
-                      <span className="inline-block w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
-                      Connected
-                    </div>
+                    {isDeviceReconnecting ? (
+                      <div className="text-xs text-amber-400 flex items-center gap-1.5">
+                        <span className="inline-block w-1.5 h-1.5 bg-amber-500 rounded-full animate-pulse"></span>
+                        Device reconnecting...
+                      </div>
+                    ) : (
+                      <div className="text-xs text-slate-400 flex items-center gap-1.5">
+                        <span className="inline-block w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
+                        Connected
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -580,9 +932,9 @@ export const SupportView = () => {
                 >
                   {serialOutput.length > 0 ? (
                     <div className="space-y-1">
-                      {serialOutput.map((line, index) => (
-                        <div key={index} className="py-0.5 leading-relaxed">
-                          {renderSerialOutput(line)}
+                      {serialOutput.map((entry) => (
+                        <div key={entry.id} className="py-0.5 leading-relaxed">
+                          <SessionTranscriptEntry entry={entry} entries={serialOutput} now={now} />
                         </div>
                       ))}
                     </div>
@@ -606,13 +958,14 @@ export const SupportView = () => {
                 <Input
                   value={command}
                   onChange={(e) => setCommand(e.target.value)}
-                  placeholder="Enter AT command to send to device..."
+                  placeholder={isObserving ? "Observers cannot send commands" : "Enter AT command to send to device..."}
                   onKeyDown={(e) => e.key === "Enter" && sendCommand()}
                   className="pl-9 font-mono"
+                  disabled={isObserving}
                 />
                 <Button
-                  onClick={sendCommand}
-                  disabled={!command.trim()}
+                  onClick={() => sendCommand()}
+                  disabled={!command.trim() || isObserving}
                   className="gap-1.5"
                 >
                   <Send className="h-4 w-4" />
@@ -622,6 +975,65 @@ export const SupportView = () => {
             </CardFooter>
           </Card>
 
+          <SessionChatPanel
+            sessionId={connectedSession}
+            role="support"
+            readOnly={isObserving}
+            senderName={profile?.displayName || profile?.email || "Support"}
+          />
+
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Settings className="h-5 w-5" />
+                    Device Configuration
+                  </CardTitle>
+                  <CardDescription>
+                    {latestSnapshot
+                      ? `Last read ${latestSnapshot.capturedAt.toLocaleTimeString()} (${configSnapshots.length} snapshot${configSnapshots.length === 1 ? "" : "s"})`
+                      : "Parsed from the device's AT+CFG output"}
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" className="gap-1.5" onClick={() => sendCommand("AT+CFG")} disabled={isObserving}>
+                  <RefreshCw className="h-3.5 w-3.5" />
+                  Read Config
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {configSnapshots.length > 1 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground shrink-0">Compare latest with</span>
+                  <Select value={baselineSnapshot?.id} onValueChange={setBaselineSnapshotId}>
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {configSnapshots.slice(0, -1).map((snapshot, index) => (
+                        <SelectItem key={snapshot.id} value={snapshot.id}>
+                          {index === 0 ? "First read" : `Read #${index + 1}`} at {snapshot.capturedAt.toLocaleTimeString()} ({snapshot.capturedBy})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {latestSnapshot ? (
+                <DeviceConfigTable
+                  config={latestSnapshot.config}
+                  compareTo={baselineSnapshot && baselineSnapshot.id !== latestSnapshot.id ? baselineSnapshot.config : null}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No configuration captured yet. Read Config asks the device for its current settings.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="border-blue-200 bg-gradient-to-r from-blue-50 to-indigo-50">
             <CardHeader className="pb-2">
               <div className="flex items-center gap-2">
@@ -638,28 +1050,7 @@ export const SupportView = () => {
                     <Terminal className="h-3.5 w-3.5" />
                     Common Commands
                   </h4>
-                  <div className="space-y-2">
-                    {[
-                      { cmd: "AT+VERSION?", desc: "Check firmware version" },
-                      { cmd: "AT+RESET", desc: "Restart the device" },
-                      { cmd: "AT+BAUD?", desc: "Check current baud rate" },
-                      { cmd: "AT+CONFIG=param,value", desc: "Change configuration" }
-                    ].map((item, i) => (
-                      <div key={i} className="flex items-start gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 px-1.5 py-0 text-xs font-mono bg-blue-100/50 text-blue-700 hover:bg-blue-200/50 hover:text-blue-800"
-                          onClick={() => {
-                            setCommand(item.cmd);
-                          }}
-                        >
-                          {item.cmd}
-                        </Button>
-                        <span className="text-xs text-blue-700">{item.desc}</span>
-                      </div>
-                    ))}
-                  </div>
+                  <AtCommandForm onSubmit={(commandText) => sendCommand(commandText)} disabled={isObserving} />
                 </div>
 
                 <div className="bg-white/50 border border-blue-100 rounded-lg p-3">
@@ -670,7 +1061,7 @@ export const SupportView = () => {
                   <ul className="text-xs text-blue-700 space-y-1.5">
                     <li className="flex items-start gap-1.5">
                       <span className="inline-block w-1 h-1 bg-blue-500 rounded-full mt-1.5"></span>
-                      <span>Commands are automatically sent to the user's device</span>
+                      <span>Depending on the user's control setting, commands may need their approval first</span>
                     </li>
                     <li className="flex items-start gap-1.5">
                       <span className="inline-block w-1 h-1 bg-blue-500 rounded-full mt-1.5"></span>
@@ -680,10 +1071,6 @@ export const SupportView = () => {
                       <span className="inline-block w-1 h-1 bg-blue-500 rounded-full mt-1.5"></span>
                       <span>The user can see all commands you send to their device</span>
                     </li>
-                    <li className="flex items-start gap-1.5">
-                      <span className="inline-block w-1 h-1 bg-blue-500 rounded-full mt-1.5"></span>
-                      <span>Sessions automatically refresh every second</span>
-                    </li>
                   </ul>
                 </div>
               </div>
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2, Printer } from "lucide-react";
+import sessionHistoryService from "@/services/SessionHistoryService";
+import { downloadTranscript, printTranscriptReport, TRANSCRIPT_EXPORT_FORMATS, TranscriptExportFormat } from "@/lib/transcriptExport";
+
+type TranscriptExportMenuProps = {
+  sessionId: string;
+  className?: string;
+};
+
+// Download a session as JSON, CSV, a plain log or a report. Reads the transcript fresh, so an open session exports everything so far
+export const TranscriptExportMenu = ({ sessionId, className }: TranscriptExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const exportAs = async (format: TranscriptExportFormat | 'print') => {
+    // Open the report window before loading anything, while we still have the click
+    const reportWindow = format === 'print' ? window.open("", "_blank") : null;
+    if (format === 'print' && !reportWindow) {
+      toast({
+        title: "Report Blocked",
+        description: "Allow popups for this site to print the report or save it as PDF.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const transcript = await sessionHistoryService.getTranscript(sessionId);
+      if (reportWindow) {
+        printTranscriptReport(reportWindow, transcript);
+      } else {
+        downloadTranscript(transcript, format as TranscriptExportFormat);
+      }
+    } catch (error) {
+      reportWindow?.close();
+      toast({
+        title: "Export Failed",
+        description: "Could not load the session transcript. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={`gap-1.5 ${className ?? ""}`} disabled={isExporting}>
+          {isExporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {TRANSCRIPT_EXPORT_FORMATS.map(option => (
+          <DropdownMenuItem key={option.value} onSelect={() => exportAs(option.value)}>
+            {option.label} (.{option.extension})
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => exportAs('print')}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
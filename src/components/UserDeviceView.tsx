@@ -5,8 +5,12 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
-import { Bluetooth, BluetoothSearching, Send, Share2, RefreshCw, Settings, AlertTriangle, Shield, Terminal, Trash2, UserCircle, Copy, List } from "lucide-react";
-import bluetoothService, { BluetoothDevice, ShareSession, SerialConfig, BluetoothError } from "@/services/BluetoothService";
+import { Bluetooth, BluetoothSearching, Send, Share2, RefreshCw, Settings, AlertTriangle, Shield, Terminal, Trash2, UserCircle, List, Upload, Usb } from "lucide-react";
+import bluetoothService, { BluetoothDevice } from "@/services/BluetoothService";
+import webSerialTransport, { SerialConfig, formatSerialConfig, isWebSerialAvailable } from "@/services/WebSerialTransport";
+import deviceLinkService, { SerialRecord } from "@/services/DeviceLinkService";
+import sessionMirrorService, { ShareSession } from "@/services/SessionMirrorService";
+import { DeviceConnectionState, DeviceError, DeviceInfo, DeviceTransportKind } from "@/services/DeviceTransport";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -15,41 +19,33 @@ import * as z from "zod";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import sessionService from "@/services/SessionService";
-import { supabase } from "@/integrations/supabase/client";
-
-// AT Commands reference
-const atCommands = [
-  {
-    command: "AT+PRO=",
-    description: "Set to use MQTT protocol to uplink, Payload Type select Hex payload."
-  },
-  {
-    command: "AT+SERVADDR=",
-    description: "Set MQTT server address and port"
-  },
-  {
-    command: "AT+CLIENT=",
-    description: "Set up the CLIENT of MQTT"
-  },
-  {
-    command: "AT+UNAME=",
-    description: "Set the username of MQTT"
-  },
-  {
-    command: "AT+PWD=",
-    description: "Set the password of MQTT"
-  },
-  {
-    command: "AT+PUBTOPIC=",
-    description: "Set the sending topic of MQTT"
-  },
-  {
-    command: "AT+SUBTOPIC=",
-    description: "Set the subscription topic of MQTT"
-  }
-];
+import sessionService, { Session, SessionCommand } from "@/services/SessionService";
+import { useSessionCommands } from "@/hooks/use-session-commands";
+import { useIsTyping, useSessionPresence } from "@/hooks/use-session-presence";
+import { useAuth } from "@/hooks/use-auth";
+import { useQueueStatus } from "@/hooks/use-queue-status";
+import { DEFAULT_SESSION_PRIORITY, formatWaitTime, USER_SESSION_PRIORITIES } from "@/lib/sessionQueue";
+import { getEndReasonOption, SessionEndReason } from "@/lib/sessionEnd";
+import { SessionPresenceIndicator } from "@/components/SessionPresenceIndicator";
+import { SessionChatPanel } from "@/components/SessionChatPanel";
+import { SessionJoinCodePanel } from "@/components/SessionJoinCodePanel";
+import authService from "@/services/AuthService";
+import { AtCommandForm } from "@/components/AtCommandForm";
+import { validateAtCommandLine } from "@/lib/atCommands";
+import { DeviceConfigTable } from "@/components/DeviceConfigTable";
+import { ProvisioningPanel } from "@/components/ProvisioningPanel";
+import { createAtCfgCollector, DeviceConfig, redactSecretConfig, redactSecretConfigLine } from "@/lib/deviceConfig";
+import { CONTROL_POLICIES, ControlPolicy, DEFAULT_CONTROL_POLICY, requiresConsent } from "@/lib/controlPolicy";
+import { ConsentRequest, SupportCommandConsentDialog } from "@/components/SupportCommandConsentDialog";
+
+// One line in the serial monitor. correlationId ties a command to the response lines it produced
+interface OutputLine {
+  text: string;
+  kind: 'user' | 'support' | 'device' | 'error';
+  correlationId?: string | null;
+}
 
 const sessionFormSchema = z.object({
   sessionName: z.string().min(3, {
@@ -57,43 +53,75 @@ const sessionFormSchema = z.object({
   }).max(30, {
     message: "Session name must not be longer than 30 characters.",
   }),
+  priority: z.enum(["low", "normal", "high"]),
 });
 
+// What the user is told when their shared session ends without them stopping it in this tab
+const sessionEndedMessages: Record<SessionEndReason, string> = {
+  user_ended: "The session was ended from another tab or device.",
+  timed_out: "The session lost contact with this app and timed out.",
+  agent_closed: "Your support agent closed the session."
+};
+
 const serialConfigFormSchema = z.object({
   baudRate: z.coerce.number().positive(),
   dataBits: z.coerce.number().int().min(5).max(9),
   stopBits: z.coerce.number().int().min(1).max(2),
   parity: z.enum(["none", "even", "odd"]),
-  flowControl: z.enum(["none", "hardware"])
+  flowControl: z.enum(["none", "hardware"]),
+  lineTerminator: z.enum(["cr", "lf", "crlf", "idle"])
 });
 
 export const UserDeviceView = () => {
   const [isConnected, setIsConnected] = useState(false);
-  const [device, setDevice] = useState<BluetoothDevice | null>(null);
+  const [connectionState, setConnectionState] = useState<DeviceConnectionState>(deviceLinkService.getConnectionState());
+  const [device, setDevice] = useState<DeviceInfo | null>(null);
   const [isSharingSession, setIsSharingSession] = useState(false);
   const [activeSession, setActiveSession] = useState<ShareSession | null>(null);
-  const [serialOutput, setSerialOutput] = useState<string[]>([]);
+  const { records: sessionCommands } = useSessionCommands(activeSession?.id ?? null);
+  const queueStatus = useQueueStatus(activeSession?.id ?? null);
+  const [serialOutput, setSerialOutput] = useState<OutputLine[]>([]);
   const [command, setCommand] = useState("");
+  const { user, profile } = useAuth();
+  const isTyping = useIsTyping(command);
+  const presenceOthers = useSessionPresence(activeSession?.id ?? null, activeSession && user ? {
+    userId: user.id,
+    name: profile?.displayName || profile?.email || "User",
+    role: 'user',
+    deviceConnected: connectionState === 'connected',
+    typing: isTyping
+  } : null);
   const [availableDevices, setAvailableDevices] = useState<BluetoothDevice[]>([]);
   const [isScanning, setIsScanning] = useState(false);
+  // Which kind of connection the picker offers while nothing is connected
+  const [transportKind, setTransportKind] = useState<DeviceTransportKind>('ble');
+  const [isOpeningPort, setIsOpeningPort] = useState(false);
   const [isSending, setIsSending] = useState(false);
-  // Use a ref instead of state to track executed commands
-  const executedCommandsRef = useRef<Set<string>>(new Set());
+  // Support command ids this tab has already tried to acknowledge, so updates to the same row don't retry them
+  const seenCommandIdsRef = useRef<Set<string>>(new Set());
   const [isSessionDialogOpen, setIsSessionDialogOpen] = useState(false);
   const [isSerialConfigDialogOpen, setIsSerialConfigDialogOpen] = useState(false);
-  const [bluetoothError, setBluetoothError] = useState<BluetoothError | null>(null);
+  const [deviceError, setDeviceError] = useState<DeviceError | null>(null);
   const [isRequestingPermission, setIsRequestingPermission] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string>("");
-  const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
-  const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const [showCommandReference, setShowCommandReference] = useState(true);
+  // First AT+CFG read of this connection, kept so later reads can be compared against it
+  const [initialDeviceConfig, setInitialDeviceConfig] = useState<DeviceConfig | null>(null);
+  const [deviceConfig, setDeviceConfig] = useState<DeviceConfig | null>(null);
+  const [isReadingConfig, setIsReadingConfig] = useState(false);
+  // Support commands waiting for the user's approval, oldest first
+  const [consentQueue, setConsentQueue] = useState<ConsentRequest[]>([]);
+  const [controlPolicy, setControlPolicy] = useState<ControlPolicy>(DEFAULT_CONTROL_POLICY);
+  // Mirrors controlPolicy for the realtime callback, which keeps the closure it was created with
+  const controlPolicyRef = useRef<ControlPolicy>(DEFAULT_CONTROL_POLICY);
   const { toast } = useToast();
 
   const sessionForm = useForm<z.infer<typeof sessionFormSchema>>({
     resolver: zodResolver(sessionFormSchema),
     defaultValues: {
       sessionName: "",
+      priority: DEFAULT_SESSION_PRIORITY,
     },
   });
 
@@ -104,49 +132,105 @@ export const UserDeviceView = () => {
       dataBits: 8,
       stopBits: 1,
       parity: "none",
-      flowControl: "none"
+      flowControl: "none",
+      lineTerminator: "crlf"
     },
   });
 
   useEffect(() => {
-    let connectionCheckInterval: NodeJS.Timeout;
+    // The transport reconnects on its own - we only reflect its state here
+    let previousState = deviceLinkService.getConnectionState();
 
-    if (isConnected) {
-      connectionCheckInterval = setInterval(async () => {
-        const stillConnected = await bluetoothService.verifyConnection();
-        if (!stillConnected && isConnected) {
-          setIsConnected(false);
-          toast({
-            title: "Device Disconnected",
-            description: "The Bluetooth connection was lost",
-            variant: "destructive",
-          });
-        }
-      }, 5000);
-    }
+    const handleConnectionState = (state: DeviceConnectionState) => {
+      setConnectionState(state);
 
-    return () => {
-      if (connectionCheckInterval) {
-        clearInterval(connectionCheckInterval);
+      if (state === 'reconnecting') {
+        toast({
+          title: "Connection Lost",
+          description: "Trying to reconnect to the device. Commands will be sent once it is back.",
+        });
+      } else if (state === 'connected' && previousState === 'reconnecting') {
+        toast({
+          title: "Reconnected",
+          description: "The connection to the device has been restored",
+        });
+      } else if (state === 'disconnected' && previousState === 'reconnecting') {
+        setIsConnected(false);
+        toast({
+          title: "Device Disconnected",
+          description: "The connection to the device was lost and could not be restored",
+          variant: "destructive",
+        });
       }
+
+      previousState = state;
+    };
+
+    deviceLinkService.addConnectionStateListener(handleConnectionState);
+
+    return () => {
+      deviceLinkService.removeConnectionStateListener(handleConnectionState);
+    };
+  }, [toast]);
+
+  useEffect(() => {
+    if (!activeSession) return;
+
+    // An agent closed the session, another tab ended it, or it timed out while this tab was asleep
+    const handleSessionEnded = (session: Session, reason: SessionEndReason) => {
+      if (session.id !== activeSession.id) return;
+
+      sessionMirrorService.stopSharingSession();
+      setIsSharingSession(false);
+      setActiveSession(null);
+      setConsentQueue([]);
+
+      toast({
+        title: "Sharing Stopped",
+        description: sessionEndedMessages[reason] ?? getEndReasonOption(reason).description,
+        variant: "destructive",
+      });
     };
-  }, [isConnected, toast]);
+
+    sessionService.addSessionEndedListener(handleSessionEnded);
+    return () => sessionService.removeSessionEndedListener(handleSessionEnded);
+  }, [activeSession, toast]);
 
   useEffect(() => {
-    const config = bluetoothService.getSerialConfig();
-    serialConfigForm.reset(config);
+    const config = webSerialTransport.getSerialConfig();
+    serialConfigForm.reset({ ...config, lineTerminator: deviceLinkService.getLineFraming().terminator });
   }, []);
 
   useEffect(() => {
-    const handleSerialData = (data: string) => {
-      setSerialOutput(prev => [...prev, data]);
-      console.log("Received data:", data);
+    const handleSerialRecord = (record: SerialRecord) => {
+      const kind = record.direction === 'rx' ? 'device' : record.sender ?? 'user';
+      setSerialOutput(prev => [...prev, { text: redactSecretConfigLine(record.text), kind, correlationId: record.correlationId }]);
     };
 
-    bluetoothService.addDataListener(handleSerialData);
+    deviceLinkService.addRecordListener(handleSerialRecord);
 
     return () => {
-      bluetoothService.removeDataListener(handleSerialData);
+      deviceLinkService.removeRecordListener(handleSerialRecord);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Parse every AT+CFG response, whoever sent it, and store it with the shared session
+    const collector = createAtCfgCollector((config, requestedBy) => {
+      setDeviceConfig(config);
+      setInitialDeviceConfig(prev => prev ?? config);
+
+      const sharedSession = sessionMirrorService.getSharedSession();
+      if (sharedSession) {
+        sessionService.saveConfigSnapshot(sharedSession.id, redactSecretConfig(config), requestedBy);
+      }
+    });
+
+    deviceLinkService.addRecordListener(collector.handleRecord);
+
+    return () => {
+      deviceLinkService.removeRecordListener(collector.handleRecord);
+      collector.dispose();
     };
   }, []);
 
@@ -163,266 +247,128 @@ export const UserDeviceView = () => {
     }
   }, [serialOutput]);
 
-  // Function to refresh commands from the database
-  const refreshCommands = async () => {
-    if (!activeSession) return;
-
+  // Run an approved support command. Using the support row's id links the device's answer to it
+  const executeSupportCommand = async (request: ConsentRequest) => {
+    const shownCommand = redactSecretConfigLine(request.command);
     try {
-      console.log(`Refreshing commands for session: ${activeSession.id}`);
-      const { data, error } = await supabase
-        .from('session_commands')
-        .select('*')
-        .eq('session_id', activeSession.id)
-        .order('timestamp', { ascending: true });
+      await deviceLinkService.query(request.command, { sender: 'support', id: request.id });
+      sessionService.updateCommandStatus(request.id, 'executed');
+      toast({
+        title: "Support Command Executed",
+        description: `${shownCommand} sent to device`,
+      });
+    } catch (error) {
+      console.error("Error executing support command:", error);
+      sessionService.updateCommandStatus(
+        request.id,
+        'failed',
+        'type' in error ? (error as DeviceError).message : "Could not send the command to the device"
+      );
+      setSerialOutput(prev => [...prev, { text: `Error executing support command: ${shownCommand}`, kind: 'error' }]);
+      toast({
+        title: "Command Failed",
+        description: `Failed to send ${shownCommand}`,
+        variant: "destructive",
+      });
+    }
+  };
 
-      console.log("Fetched commands:", data);
+  // Every tab of the owner sees support commands. Only the client whose acknowledgement
+  // wins runs a command, so it runs once across tabs and reloads
+  const handleSupportCommand = async (cmd: SessionCommand) => {
+    if (seenCommandIdsRef.current.has(cmd.id)) return;
 
-      if (error) {
-        console.error("Error refreshing commands:", error);
-        return;
+    if (cmd.acked_at) {
+      // A reload during the consent prompt leaves this tab's command delivered but undecided. Ask again
+      if (cmd.status === 'delivered' && !cmd.consent && sessionService.isAcknowledgedHere(cmd)) {
+        seenCommandIdsRef.current.add(cmd.id);
+        askOrRunSupportCommand(cmd);
       }
+      return;
+    }
+    seenCommandIdsRef.current.add(cmd.id);
 
-      if (data && data.length > 0) {
-        // Process and display commands
-        const commandOutput = data.map(cmd =>
-          cmd.sender === 'support'
-            ? `> [Support] ${cmd.command}`
-            : cmd.sender === 'user'
-              ? `> ${cmd.command}`
-              : cmd.command
-        );
-        setSerialOutput(commandOutput);
-
-        // Auto-execute any support commands that haven't been executed yet
-        // We'll use a Set to keep track of which commands have been executed
-        for (const cmd of data) {
-          // Create a unique key for this command using id
-          const commandKey = cmd.id;
-
-          console.log("Checking command:", cmd.command, "ID:", commandKey, "Already executed:", executedCommandsRef.current.has(commandKey));
-
-          // Only execute support commands that haven't been executed yet
-          if (cmd.sender === 'support' && !executedCommandsRef.current.has(commandKey)) {
-            console.log("Auto-executing support command from refresh:", cmd.command);
-            setDebugInfo(prev => `${prev}\n\nAuto-executing command from refresh: ${cmd.command} (ID: ${commandKey})`);
-
-            try {
-              // Execute the command
-              await bluetoothService.sendCommand(cmd.command);
-              console.log("Support command executed successfully from refresh");
-
-              // Add this command to the set of executed commands
-              executedCommandsRef.current.add(commandKey);
-              console.log("Added to executed commands. Set now contains:", Array.from(executedCommandsRef.current));
-
-              // Show a toast notification
-              toast({
-                title: "Support Command Auto-Executed",
-                description: `${cmd.command} sent to device (ID: ${commandKey})`,
-              });
-            } catch (error) {
-              console.error("Error auto-executing support command from refresh:", error);
-
-              // Show error toast
-              toast({
-                title: "Command Failed",
-                description: `Failed to send ${cmd.command}`,
-                variant: "destructive",
-              });
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error in refreshCommands:", error);
+    const ack = await sessionService.acknowledgeCommand(cmd.id);
+    if (ack === 'failed') {
+      // Try again with the next change the sync delivers
+      seenCommandIdsRef.current.delete(cmd.id);
+      return;
     }
+    if (ack === 'already-acknowledged') {
+      console.log("Support command already acknowledged by another client:", cmd.id);
+      return;
+    }
+
+    askOrRunSupportCommand(cmd);
   };
 
-  useEffect(() => {
-    if (activeSession) {
-      // Initial fetch of commands
-      refreshCommands();
-
-      // Set up interval to refresh commands every second
-      refreshIntervalRef.current = setInterval(() => {
-        refreshCommands();
-        setLastRefreshTime(new Date());
-      }, 1000);
-
-      // Also set up real-time subscription for immediate updates
-      const channel = supabase
-        .channel('support-commands')
-        .on('postgres_changes', {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'session_commands',
-          filter: `session_id=eq.${activeSession.id} AND sender=eq.support`
-        }, async (payload) => {
-          console.log("Received support command:", payload);
-          const newCommand = payload.new as any;
-
-          // Log that we received a command with more details
-          console.log("Received support command:", JSON.stringify(newCommand, null, 2));
-
-          // Add to debug info for visibility
-          setDebugInfo(prev => `${prev}\n\nReceived command: ${JSON.stringify(newCommand, null, 2)}`);
-
-          // Extract the actual command from the support command
-          let commandToExecute = newCommand.command;
-
-          // Auto-execute the command immediately if it's from support
-          if (newCommand.sender === 'support' && commandToExecute) {
-            console.log("Auto-executing support command:", commandToExecute);
-            setDebugInfo(prev => `${prev}\n\nAuto-executing command: ${commandToExecute}`);
-
-            // Send the command directly to the device
-            try {
-              await bluetoothService.sendCommand(commandToExecute);
-              console.log("Support command executed successfully");
-
-              // Show a toast notification
-              toast({
-                title: "Support Command Auto-Executed",
-                description: `${commandToExecute} sent to device`,
-              });
-            } catch (error) {
-              console.error("Error auto-executing support command:", error);
-
-              // Add error to serial output
-              setSerialOutput(prev => [...prev, `! Error executing support command: ${commandToExecute}`]);
-
-              // Show error toast
-              toast({
-                title: "Command Failed",
-                description: `Failed to send ${commandToExecute}`,
-                variant: "destructive",
-              });
-            }
-          }
-
-          // Auto-execute the command immediately
-          if (newCommand.sender === 'support' && commandToExecute) {
-            console.log("Auto-executing support command:", commandToExecute);
-
-            // Send the command directly to the device
-            try {
-              await bluetoothService.sendCommand(commandToExecute);
-              console.log("Support command executed successfully");
-
-              // Show a toast notification
-              toast({
-                title: "Support Command Auto-Executed",
-                description: `${commandToExecute} sent to device`,
-              });
-            } catch (error) {
-              console.error("Error auto-executing support command:", error);
-
-              // Add error to serial output
-              setSerialOutput(prev => [...prev, `! Error executing support command: ${commandToExecute}`]);
-
-              // Show error toast
-              toast({
-                title: "Command Failed",
-                description: `Failed to send ${commandToExecute}`,
-                variant: "destructive",
-              });
-            }
-          }
-
-          // Log the command for debugging
-          console.log("Command to check:", commandToExecute);
-
-          // ALWAYS execute support commands regardless of format
-          // Extract the actual command - remove any prefixes if they exist
-          if (commandToExecute) {
-            if (commandToExecute.startsWith('AUTO_EXEC::')) {
-              commandToExecute = commandToExecute.substring('AUTO_EXEC::'.length);
-            } else if (commandToExecute.startsWith('##EXEC##')) {
-              commandToExecute = commandToExecute.substring('##EXEC##'.length);
-            }
-
-            // Log that we're executing the command
-            console.log("Executing support command:", commandToExecute);
-            setDebugInfo(prev => `${prev}\n\nExecuting command: ${commandToExecute}`);
-
-            // FORCE DIRECT EXECUTION - bypass all checks
-            try {
-              // Get the characteristic directly if possible
-              if (bluetoothService.isConnected() && bluetoothService.getConnectedDevice()) {
-                const device = bluetoothService.getConnectedDevice();
-                if (device?.device?.gatt) {
-                  try {
-                    // Try the normal sendCommand first
-                    await bluetoothService.sendCommand(commandToExecute);
-                    console.log("Support command executed successfully via sendCommand");
-                  } catch (sendError) {
-                    console.error("Error with sendCommand, trying direct method:", sendError);
-
-                    // If that fails, try direct method
-                    const server = await device.device.gatt.connect();
-                    const service = await server.getPrimaryService('0000ffe0-0000-1000-8000-00805f9b34fb');
-                    const characteristic = await service.getCharacteristic('0000ffe1-0000-1000-8000-00805f9b34fb');
-
-                    const encoder = new TextEncoder();
-                    const data = encoder.encode(commandToExecute + '\r\n');
-                    await characteristic.writeValue(data);
-                    console.log("Support command executed successfully via direct method");
-                  }
-
-                  // Show a toast notification
-                  toast({
-                    title: "Support Command Executed",
-                    description: `${commandToExecute} sent to device`,
-                  });
-                } else {
-                  throw new Error("Device GATT not available");
-                }
-              } else {
-                throw new Error("Device not connected");
-              }
-            } catch (error) {
-              console.error("Error executing support command:", error);
-              setDebugInfo(prev => `${prev}\n\nError executing command: ${commandToExecute}\n${JSON.stringify(error, null, 2)}`);
-
-              // Add error to serial output
-              setSerialOutput(prev => [...prev, `! Error executing support command: ${commandToExecute}`]);
-
-              // Show error toast
-              toast({
-                title: "Command Failed",
-                description: `Failed to send ${commandToExecute}`,
-                variant: "destructive",
-              });
-            }
-          } else {
-            // If it's not an auto-execute command, just log it
-            console.log("Received non-auto-execute command:", commandToExecute);
-          }
-
-          // Force a refresh to show the new command and response
-          refreshCommands();
-        })
-        .subscribe((status) => {
-          console.log(`Subscription status for support commands: ${status}`);
-        });
+  // The control policy decides whether an acknowledged command needs the user's approval first
+  const askOrRunSupportCommand = (cmd: SessionCommand) => {
+    const request: ConsentRequest = { id: cmd.id, command: cmd.command };
+    if (requiresConsent(controlPolicyRef.current, cmd.command)) {
+      setConsentQueue(prev => [...prev, request]);
+      return;
+    }
+
+    sessionService.recordCommandConsent(cmd.id, 'auto-approved');
+    executeSupportCommand(request);
+  };
 
-      return () => {
-        console.log("Cleaning up support command subscription and refresh interval");
-        supabase.removeChannel(channel);
+  const handleConsentDecision = (request: ConsentRequest, decision: 'approved' | 'denied' | 'expired') => {
+    setConsentQueue(prev => prev.filter(pending => pending.id !== request.id));
+    sessionService.recordCommandConsent(request.id, decision);
 
-        // Clear the refresh interval
-        if (refreshIntervalRef.current) {
-          clearInterval(refreshIntervalRef.current);
-          refreshIntervalRef.current = null;
-        }
-      };
+    if (decision === 'approved') {
+      executeSupportCommand(request);
+      return;
     }
-  }, [activeSession]);
+
+    sessionService.updateCommandStatus(request.id, 'failed', decision === 'denied' ? "Denied by user" : "User did not answer in time");
+
+    setSerialOutput(prev => [...prev, {
+      text: `Support command ${decision === 'denied' ? "denied" : "expired without an answer"}: ${redactSecretConfigLine(request.command)}`,
+      kind: 'error'
+    }]);
+    toast({
+      title: decision === 'denied' ? "Command Denied" : "Command Expired",
+      description: `${redactSecretConfigLine(request.command)} was not sent to your device`,
+    });
+  };
+
+  // The transcript effect below runs on new commands, not whenever this is recreated by a render
+  const handleSupportCommandRef = useRef(handleSupportCommand);
+  handleSupportCommandRef.current = handleSupportCommand;
+
+  const changeControlPolicy = async (policy: ControlPolicy) => {
+    setControlPolicy(policy);
+    controlPolicyRef.current = policy;
+
+    if (activeSession && !(await sessionService.updateControlPolicy(activeSession.id, policy))) {
+      toast({
+        title: "Policy Not Saved",
+        description: "Support may still see the previous control setting",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!activeSession || sessionCommands.length === 0) return;
+
+    // While sharing, the shared transcript is what both sides see
+    setSerialOutput(sessionCommands.map((cmd): OutputLine =>
+      cmd.sender === 'device'
+        ? { text: redactSecretConfigLine(cmd.command), kind: 'device', correlationId: cmd.in_reply_to }
+        : { text: redactSecretConfigLine(cmd.command), kind: cmd.sender === 'support' ? 'support' : 'user', correlationId: cmd.id }
+    ));
+
+    sessionCommands.filter(cmd => cmd.sender === 'support').forEach(cmd => handleSupportCommandRef.current(cmd));
+  }, [activeSession, sessionCommands]);
 
   const scanForDevices = async () => {
     try {
       setIsScanning(true);
-      setBluetoothError(null);
+      setDeviceError(null);
 
       toast({
         title: "Scanning for devices...",
@@ -439,9 +385,9 @@ export const UserDeviceView = () => {
     } catch (error) {
       console.error("Scan error:", error);
       if ('type' in error) {
-        setBluetoothError(error as BluetoothError);
+        setDeviceError(error as DeviceError);
       } else {
-        setBluetoothError({
+        setDeviceError({
           type: 'unknown',
           message: 'Failed to scan for devices',
         });
@@ -460,16 +406,16 @@ export const UserDeviceView = () => {
   const connectToDevice = async (deviceId: string) => {
     try {
       setSerialOutput([]);
-      setBluetoothError(null);
+      setDeviceError(null);
 
       toast({
         title: "Connecting to device...",
         description: "Please wait while we establish a connection",
       });
 
-      await bluetoothService.connectToDevice(deviceId);
+      await deviceLinkService.connect(bluetoothService, deviceId);
       setIsConnected(true);
-      setDevice(bluetoothService.getConnectedDevice());
+      setDevice(deviceLinkService.getConnectedDevice());
 
       toast({
         title: "Connected!",
@@ -478,9 +424,9 @@ export const UserDeviceView = () => {
     } catch (error) {
       console.error("Connection error:", error);
       if ('type' in error) {
-        setBluetoothError(error as BluetoothError);
+        setDeviceError(error as DeviceError);
       } else {
-        setBluetoothError({
+        setDeviceError({
           type: 'connection-failed',
           message: 'Failed to connect to device',
         });
@@ -494,12 +440,74 @@ export const UserDeviceView = () => {
     }
   };
 
-  const disconnectDevice = () => {
-    bluetoothService.disconnect();
+  // Open a USB-UART adapter. Reconnecting passes the device id so the picker isn't shown again
+  const connectToSerialPort = async (deviceId?: string) => {
+    try {
+      setIsOpeningPort(true);
+      setSerialOutput([]);
+      setDeviceError(null);
+
+      await deviceLinkService.connect(webSerialTransport, deviceId);
+      setIsConnected(true);
+      setDevice(deviceLinkService.getConnectedDevice());
+
+      toast({
+        title: "Connected!",
+        description: `Opened the USB serial port at ${formatSerialConfig(webSerialTransport.getSerialConfig())}`,
+      });
+    } catch (error) {
+      console.error("Serial port error:", error);
+      const serialError: DeviceError = 'type' in error
+        ? error as DeviceError
+        : { type: 'connection-failed', message: 'Failed to open the USB serial port' };
+
+      // Closing the port picker is not worth an error banner
+      if (serialError.type === 'user-cancelled') return;
+
+      setDeviceError(serialError);
+      toast({
+        title: "Connection Failed",
+        description: serialError.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsOpeningPort(false);
+    }
+  };
+
+  const readDeviceConfig = async () => {
+    setIsReadingConfig(true);
+    try {
+      // The response is parsed by the AT+CFG collector
+      await deviceLinkService.query("AT+CFG", { timeoutMs: 5000 });
+    } catch (error) {
+      console.error("Error reading device configuration:", error);
+      toast({
+        title: "Read Config Failed",
+        description: 'type' in error ? (error as DeviceError).message : "The device did not report its configuration",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReadingConfig(false);
+    }
+  };
+
+  const disconnectDevice = async () => {
+    // Without the device there is nothing left to share, so end the session instead of leaving it open
+    if (activeSession) {
+      await sessionService.revokeJoinCode(activeSession.id);
+      await sessionService.closeSession(activeSession.id);
+      sessionMirrorService.stopSharingSession();
+    }
+
+    deviceLinkService.disconnect();
     setIsConnected(false);
     setDevice(null);
     setIsSharingSession(false);
     setActiveSession(null);
+    setConsentQueue([]);
+    setDeviceConfig(null);
+    setInitialDeviceConfig(null);
     toast({
       title: "Disconnected",
       description: "Device has been disconnected",
@@ -514,26 +522,34 @@ export const UserDeviceView = () => {
   const onShareSessionSubmit = async (values: z.infer<typeof sessionFormSchema>) => {
     try {
       const deviceIdentifier = device ? device.name : "Unknown Device";
-      const userName = values.sessionName; // Use the session name as the user name for consistency
+      // Support sees which BLE module, or how the USB port was opened
+      const deviceType = device?.detail ?? null;
+      // Show support who is asking for help; the owner itself is recorded server-side
+      const profile = authService.getState().profile;
+      const userName = profile?.displayName || profile?.email || values.sessionName;
 
       const session = await sessionService.createSession(
         values.sessionName,
         userName,
-        deviceIdentifier
+        deviceIdentifier,
+        values.priority,
+        deviceType
       );
 
-      const bluetoothSession = bluetoothService.shareDeviceSession(values.sessionName, session.id);
+      sessionMirrorService.shareDeviceSession(values.sessionName, session.id);
 
       setActiveSession({
         id: session.id,
         name: session.name
       });
+      setControlPolicy(session.controlPolicy);
+      controlPolicyRef.current = session.controlPolicy;
       setIsSharingSession(true);
       setIsSessionDialogOpen(false);
 
       toast({
         title: "Session Shared",
-        description: `Session ID: ${session.id}. A support agent can now connect to your device.`,
+        description: "Give the join code to your support agent so they can connect to your device.",
       });
     } catch (error) {
       console.error("Error sharing session:", error);
@@ -548,11 +564,16 @@ export const UserDeviceView = () => {
   const stopSharingSession = async () => {
     if (activeSession) {
       try {
-        await sessionService.closeSession(activeSession.id);
+        // Make sure nobody can still join with a code the user handed out
+        await sessionService.revokeJoinCode(activeSession.id);
+        if (!(await sessionService.closeSession(activeSession.id))) {
+          throw new Error("The session was not closed");
+        }
 
-        bluetoothService.stopSharingSession();
+        sessionMirrorService.stopSharingSession();
         setIsSharingSession(false);
         setActiveSession(null);
+        setConsentQueue([]);
 
         toast({
           title: "Session Ended",
@@ -569,20 +590,34 @@ export const UserDeviceView = () => {
     }
   };
 
-  const sendCommand = async () => {
-    if (command.trim() === "") return;
+  const sendCommand = async (commandText: string = command) => {
+    if (commandText.trim() === "") return;
+
+    // Catch malformed parameters before anything reaches the device
+    const validationError = validateAtCommandLine(commandText);
+    if (validationError) {
+      toast({
+        title: "Invalid Command",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
 
-    setSerialOutput(prev => [...prev, `> ${command}`]);
     setIsSending(true);
 
     try {
-      const connected = await bluetoothService.verifyConnection();
-      if (!connected) {
-        setIsConnected(false);
-        throw new Error("Device is no longer connected");
+      // While reconnecting, sendCommand holds the command and replays it later
+      if (!deviceLinkService.isReconnecting()) {
+        const connected = await deviceLinkService.verifyConnection();
+        if (!connected) {
+          setIsConnected(false);
+          throw new Error("Device is no longer connected");
+        }
       }
 
-      await bluetoothService.sendCommand(command);
+      // query() waits for OK/ERROR so the response lines are tied to this command
+      await deviceLinkService.query(commandText);
 
       toast({
         title: "Command Sent",
@@ -591,15 +626,27 @@ export const UserDeviceView = () => {
     } catch (error) {
       console.error("Command error:", error);
 
-      if ('type' in error && (error as BluetoothError).type === 'device-disconnected') {
+      // The write went through but the device answered with ERROR or not at all
+      if ('type' in error && ((error as DeviceError).type === 'command-error' || (error as DeviceError).type === 'command-timeout')) {
+        const queryError = error as DeviceError;
+        setSerialOutput(prev => [...prev, { text: queryError.message, kind: 'error' }]);
+        toast({
+          title: queryError.type === 'command-error' ? "Command Rejected" : "No Response",
+          description: queryError.message,
+          variant: queryError.type === 'command-error' ? "destructive" : "default",
+        });
+        return;
+      }
+
+      if ('type' in error && (error as DeviceError).type === 'device-disconnected') {
         setIsConnected(false);
       }
 
       let errorMessage = "Could not send command to the device";
       if ('type' in error) {
-        const btError = error as BluetoothError;
+        const btError = error as DeviceError;
         errorMessage = btError.message;
-        setBluetoothError(btError);
+        setDeviceError(btError);
       }
 
       toast({
@@ -609,17 +656,19 @@ export const UserDeviceView = () => {
       });
     } finally {
       setIsSending(false);
-      setCommand("");
+      if (commandText === command) {
+        setCommand("");
+      }
     }
   };
 
   const openSerialConfigDialog = () => {
-    const config = bluetoothService.getSerialConfig();
-    serialConfigForm.reset(config);
+    const config = webSerialTransport.getSerialConfig();
+    serialConfigForm.reset({ ...config, lineTerminator: deviceLinkService.getLineFraming().terminator });
     setIsSerialConfigDialogOpen(true);
   };
 
-  const onSerialConfigSubmit = (values: z.infer<typeof serialConfigFormSchema>) => {
+  const onSerialConfigSubmit = async (values: z.infer<typeof serialConfigFormSchema>) => {
     try {
       const serialConfig: SerialConfig = {
         baudRate: values.baudRate,
@@ -629,7 +678,16 @@ export const UserDeviceView = () => {
         flowControl: values.flowControl
       };
 
-      bluetoothService.setSerialConfig(serialConfig);
+      // Reopens the port when a USB device is connected
+      await webSerialTransport.setSerialConfig(serialConfig);
+      if (isConnected) {
+        // The port settings are part of how a USB device is described
+        setDevice(deviceLinkService.getConnectedDevice());
+      }
+      deviceLinkService.setLineFraming({
+        ...deviceLinkService.getLineFraming(),
+        terminator: values.lineTerminator
+      });
       setIsSerialConfigDialogOpen(false);
 
       toast({
@@ -637,6 +695,14 @@ export const UserDeviceView = () => {
         description: `Baud: ${values.baudRate}, Data bits: ${values.dataBits}, Stop bits: ${values.stopBits}`,
       });
     } catch (error) {
+      // The USB port could not be reopened with the new settings and has been closed
+      if ('type' in error) {
+        setIsConnected(false);
+        setDevice(null);
+        setDeviceError(error as DeviceError);
+        setIsSerialConfigDialogOpen(false);
+      }
+
       toast({
         title: "Configuration Failed",
         description: "Could not update serial configuration",
@@ -645,7 +711,18 @@ export const UserDeviceView = () => {
     }
   };
 
-  const getErrorGuidance = (error: BluetoothError): string => {
+  const getErrorGuidance = (error: DeviceError): string => {
+    if (transportKind === 'usb') {
+      switch (error.type) {
+        case 'not-supported':
+          return "Try using a browser that supports Web Serial (Chrome, Edge, or Opera) on a desktop computer.";
+        case 'connection-failed':
+          return "Close any other program using the port (a terminal, an IDE serial monitor) and check the cable.";
+        case 'device-disconnected':
+          return "The USB cable was unplugged or the adapter reset. Plug it back in and reconnect.";
+      }
+    }
+
     switch (error.type) {
       case 'not-supported':
         return "Try using a browser that supports Web Bluetooth (Chrome, Edge, or Opera) on a compatible device.";
@@ -669,21 +746,26 @@ export const UserDeviceView = () => {
   };
 
   const clearError = () => {
-    setBluetoothError(null);
+    setDeviceError(null);
   };
 
   const reconnectDevice = async () => {
     if (!device) return;
 
+    if (device.transport === 'usb') {
+      await connectToSerialPort(device.id);
+      return;
+    }
+
     try {
       toast({
         title: "Reconnecting...",
         description: "Attempting to reconnect to the device",
       });
 
-      await bluetoothService.connectToDevice(device.id);
+      await deviceLinkService.connect(bluetoothService, device.id);
       setIsConnected(true);
-      setBluetoothError(null);
+      setDeviceError(null);
 
       toast({
         title: "Reconnected!",
@@ -711,7 +793,7 @@ export const UserDeviceView = () => {
     }, 10000);
 
     try {
-      setBluetoothError(null);
+      setDeviceError(null);
 
       // Clear previous debug info
       setDebugInfo("");
@@ -780,7 +862,7 @@ export const UserDeviceView = () => {
           variant: "destructive",
         });
 
-        setBluetoothError({
+        setDeviceError({
           type: 'permission-denied',
           message: 'Bluetooth permission was denied',
         });
@@ -789,9 +871,9 @@ export const UserDeviceView = () => {
       console.error("Permission request error:", error);
 
       if ('type' in error) {
-        setBluetoothError(error as BluetoothError);
+        setDeviceError(error as DeviceError);
       } else {
-        setBluetoothError({
+        setDeviceError({
           type: 'unknown',
           message: 'Failed to request Bluetooth permission',
         });
@@ -812,15 +894,6 @@ export const UserDeviceView = () => {
     }
   };
 
-  // Function to handle copying a command to the input field
-  const copyCommandToInput = (commandText: string) => {
-    setCommand(commandText);
-    toast({
-      title: "Command Copied",
-      description: `${commandText} ready to send`,
-    });
-  };
-
   const toggleCommandReference = () => {
     setShowCommandReference(!showCommandReference);
   };
@@ -828,12 +901,12 @@ export const UserDeviceView = () => {
   return (
     <div className="space-y-4">
       {/* Error display */}
-      {bluetoothError && (
+      {deviceError && (
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>{bluetoothError.message}</AlertTitle>
+          <AlertTitle>{deviceError.message}</AlertTitle>
           <AlertDescription>
-            <p className="mt-2">{getErrorGuidance(bluetoothError)}</p>
+            <p className="mt-2">{getErrorGuidance(deviceError)}</p>
             <div className="flex gap-2 mt-4">
               <Button
                 variant="outline"
@@ -842,7 +915,7 @@ export const UserDeviceView = () => {
               >
                 Dismiss
               </Button>
-              {bluetoothError.type === 'device-disconnected' && device && (
+              {deviceError.type === 'device-disconnected' && device && (
                 <Button
                   variant="default"
                   size="sm"
@@ -864,222 +937,313 @@ export const UserDeviceView = () => {
             Device Connection
           </CardTitle>
           <CardDescription>
-            Connect to your Bluetooth serial device
+            Connect to your serial device over Bluetooth or a USB cable
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {bluetoothService.isWebBluetoothAvailable() ? (
-            isConnected ? (
-              <div className="space-y-4">
-                {/* Enhanced Connection Status Card */}
-                <div className="bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-lg p-4 shadow-sm">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="relative">
-                        <div className="bg-green-100 p-2 rounded-full">
+          {isConnected ? (
+            <div className="space-y-4">
+              {/* Enhanced Connection Status Card */}
+              <div className="bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-lg p-4 shadow-sm">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="relative">
+                      <div className="bg-green-100 p-2 rounded-full">
+                        {device?.transport === 'usb' ? (
+                          <Usb className="h-6 w-6 text-green-600" />
+                        ) : (
                           <Bluetooth className="h-6 w-6 text-green-600" />
-                        </div>
-                        <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white"></span>
+                        )}
                       </div>
-                      <div>
-                        <h3 className="font-medium text-green-800">{device?.name}</h3>
+                      <span className={`absolute -top-1 -right-1 w-3 h-3 rounded-full border-2 border-white ${connectionState === 'reconnecting' ? "bg-amber-500 animate-pulse" : "bg-green-500"}`}></span>
+                    </div>
+                    <div>
+                      <h3 className="font-medium text-green-800">{device?.name}</h3>
+                      {connectionState === 'reconnecting' ? (
+                        <p className="text-xs text-amber-600 flex items-center gap-1">
+                          <RefreshCw className="h-3 w-3 animate-spin" />
+                          {device?.transport === 'usb' ? "Waiting for the cable to be plugged back in..." : "Reconnecting..."}
+                        </p>
+                      ) : (
                         <p className="text-xs text-green-600 flex items-center gap-1">
                           <span className="inline-block w-1.5 h-1.5 bg-green-500 rounded-full"></span>
                           Connected and ready
+                          {device?.detail && (
+                            <span className="text-green-500">· {device.detail}</span>
+                          )}
                         </p>
-                      </div>
+                      )}
                     </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={disconnectDevice}
+                    className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                  >
+                    Disconnect
+                  </Button>
+                </div>
+              </div>
+
+              {/* Device Controls */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="border rounded-lg p-3 hover:border-primary hover:bg-primary/5 transition-colors">
+                  <h4 className="text-sm font-medium mb-2 flex items-center gap-1.5">
+                    <Settings className="h-4 w-4 text-muted-foreground" />
+                    Device Configuration
+                  </h4>
+                  <div className="space-y-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={openSerialConfigDialog}
+                      className="w-full justify-start text-sm"
+                    >
+                      <Settings className="h-3.5 w-3.5 mr-1.5" />
+                      Serial Config
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={disconnectDevice}
-                      className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                      onClick={readDeviceConfig}
+                      disabled={isReadingConfig}
+                      className="w-full justify-start text-sm"
                     >
-                      Disconnect
+                      {isReadingConfig ? (
+                        <RefreshCw className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                      ) : (
+                        <Terminal className="h-3.5 w-3.5 mr-1.5" />
+                      )}
+                      Read Config
                     </Button>
                   </div>
                 </div>
 
-                {/* Device Controls */}
-                <div className="grid grid-cols-2 gap-3">
-                  <div className="border rounded-lg p-3 hover:border-primary hover:bg-primary/5 transition-colors">
-                    <h4 className="text-sm font-medium mb-2 flex items-center gap-1.5">
-                      <Settings className="h-4 w-4 text-muted-foreground" />
-                      Device Configuration
-                    </h4>
-                    <div className="space-y-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={openSerialConfigDialog}
-                        className="w-full justify-start text-sm"
-                      >
-                        <Settings className="h-3.5 w-3.5 mr-1.5" />
-                        Serial Config
-                      </Button>
+                <div className="border rounded-lg p-3 hover:border-primary hover:bg-primary/5 transition-colors">
+                  <h4 className="text-sm font-medium mb-2 flex items-center gap-1.5">
+                    <Share2 className="h-4 w-4 text-muted-foreground" />
+                    Remote Support
+                  </h4>
+                  <div className="space-y-2">
+                    {isSharingSession ? (
+                      <>
+                        <div className="bg-blue-50 text-blue-700 text-xs p-2 rounded flex items-center gap-1.5 mb-2">
+                          <Shield className="h-3 w-3" />
+                          Sharing: {activeSession?.name}
+                        </div>
+                        {activeSession && <SessionJoinCodePanel sessionId={activeSession.id} />}
+                        {queueStatus && (
+                          <div className="bg-amber-50 text-amber-800 text-xs p-2 rounded mb-2">
+                            <p className="font-medium">
+                              Position {queueStatus.position} of {queueStatus.waitingCount} in the support queue
+                            </p>
+                            <p className="mt-0.5">
+                              {queueStatus.estimatedWaitSeconds !== null
+                                ? `Estimated wait about ${formatWaitTime(queueStatus.estimatedWaitSeconds)}`
+                                : "An agent will pick up your session as soon as possible"}
+                            </p>
+                          </div>
+                        )}
+                        <Select value={controlPolicy} onValueChange={(value) => changeControlPolicy(value as ControlPolicy)}>
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CONTROL_POLICIES.map((policy) => (
+                              <SelectItem key={policy.value} value={policy.value}>
+                                {policy.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          {CONTROL_POLICIES.find(policy => policy.value === controlPolicy)?.description}
+                        </p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={stopSharingSession}
+                          className="w-full justify-start text-sm border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                        >
+                          <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+                          Stop Sharing
+                        </Button>
+                      </>
+                    ) : (
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => {
-                          bluetoothService.sendCommand("AT+CFG")
-                            .then(() => {
-                              console.log("Test command sent successfully");
-                              toast({
-                                title: "Test Command Sent",
-                                description: "AT+CFG command sent to device",
-                              });
-                            })
-                            .catch(error => {
-                              console.error("Error sending test command:", error);
-                              toast({
-                                title: "Test Command Failed",
-                                description: "Failed to send AT+CFG command",
-                                variant: "destructive",
-                              });
-                            });
-                        }}
+                        onClick={openShareDialog}
                         className="w-full justify-start text-sm"
                       >
-                        <Terminal className="h-3.5 w-3.5 mr-1.5" />
-                        Test Command
+                        <UserCircle className="h-3.5 w-3.5 mr-1.5" />
+                        Share Device
                       </Button>
-                    </div>
+                    )}
                   </div>
-
-                  <div className="border rounded-lg p-3 hover:border-primary hover:bg-primary/5 transition-colors">
-                    <h4 className="text-sm font-medium mb-2 flex items-center gap-1.5">
-                      <Share2 className="h-4 w-4 text-muted-foreground" />
-                      Remote Support
-                    </h4>
-                    <div className="space-y-2">
-                      {isSharingSession ? (
-                        <>
-                          <div className="bg-blue-50 text-blue-700 text-xs p-2 rounded flex items-center gap-1.5 mb-2">
-                            <Shield className="h-3 w-3" />
-                            Sharing: {activeSession?.name}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <Tabs value={transportKind} onValueChange={(value) => setTransportKind(value as DeviceTransportKind)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="ble" className="gap-1.5">
+                  <Bluetooth className="h-4 w-4" />
+                  Bluetooth
+                </TabsTrigger>
+                <TabsTrigger value="usb" className="gap-1.5">
+                  <Usb className="h-4 w-4" />
+                  USB Cable
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="ble">
+                {bluetoothService.isWebBluetoothAvailable() ? (
+                  <div className="space-y-4">
+                    <div className="border rounded p-4 bg-muted/30">
+                      <div className="flex justify-between items-center">
+                        <div className="flex items-center gap-3">
+                          <BluetoothSearching className="h-6 w-6 text-muted-foreground" />
+                          <div>
+                            <h3 className="text-sm font-medium">No Device Connected</h3>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              Scan for Bluetooth devices to get started
+                            </p>
                           </div>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={stopSharingSession}
-                            className="w-full justify-start text-sm border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
-                          >
-                            <Trash2 className="h-3.5 w-3.5 mr-1.5" />
-                            Stop Sharing
-                          </Button>
-                        </>
-                      ) : (
+                        </div>
                         <Button
+                          onClick={requestBluetoothPermission}
+                          variant="default"
+                          disabled={isRequestingPermission}
+                        >
+                          {isRequestingPermission ? "Requesting..." : "Request Bluetooth Permission"}
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-medium">Available Devices</h3>
+                        <Button
+                          onClick={scanForDevices}
                           variant="outline"
                           size="sm"
-                          onClick={openShareDialog}
-                          className="w-full justify-start text-sm"
+                          disabled={isScanning}
+                          className="flex items-center gap-1.5"
                         >
-                          <UserCircle className="h-3.5 w-3.5 mr-1.5" />
-                          Share Device
+                          {isScanning ? (
+                            <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-3.5 w-3.5" />
+                          )}
+                          {isScanning ? "Scanning..." : "Scan"}
                         </Button>
-                      )}
+                      </div>
+
+                      <div className="border rounded">
+                        {availableDevices.length === 0 ? (
+                          <div className="p-8 text-center text-muted-foreground">
+                            <BluetoothSearching className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                            <p className="text-sm">No devices found</p>
+                            <p className="text-xs mt-1 max-w-xs mx-auto">
+                              Click "Scan" to search for nearby Bluetooth devices.
+                              Make sure your device is powered on and in pairing mode.
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="divide-y">
+                            {availableDevices.map((device) => (
+                              <div
+                                key={device.id}
+                                className="p-3 hover:bg-muted/30 transition-colors"
+                              >
+                                <div className="flex justify-between items-center">
+                                  <div className="flex items-center gap-3">
+                                    <Bluetooth className="h-4 w-4 text-primary" />
+                                    <div>
+                                      <h4 className="text-sm font-medium">{device.name || "Unknown Device"}</h4>
+                                      <p className="text-xs text-muted-foreground truncate max-w-[200px]">
+                                        {device.id}
+                                      </p>
+                                    </div>
+                                  </div>
+                                  <Button
+                                    size="sm"
+                                    onClick={() => connectToDevice(device.id)}
+                                  >
+                                    Connect
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <div className="border rounded p-4 bg-muted/30">
-                  <div className="flex justify-between items-center">
-                    <div className="flex items-center gap-3">
-                      <BluetoothSearching className="h-6 w-6 text-muted-foreground" />
+                ) : (
+                  <div className="border rounded p-4 bg-yellow-50">
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
                       <div>
-                        <h3 className="text-sm font-medium">No Device Connected</h3>
-                        <p className="text-xs text-muted-foreground mt-0.5">
-                          Scan for Bluetooth devices to get started
+                        <h3 className="text-sm font-medium text-yellow-800">Bluetooth Not Supported</h3>
+                        <p className="text-xs text-yellow-700 mt-1">
+                          Your browser doesn't support Web Bluetooth.
+                          Try using Chrome, Edge, or Opera on a compatible device.
                         </p>
                       </div>
                     </div>
-                    <Button
-                      onClick={requestBluetoothPermission}
-                      variant="default"
-                      disabled={isRequestingPermission}
-                    >
-                      {isRequestingPermission ? "Requesting..." : "Request Bluetooth Permission"}
-                    </Button>
                   </div>
-                </div>
-
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-medium">Available Devices</h3>
-                    <Button
-                      onClick={scanForDevices}
-                      variant="outline"
-                      size="sm"
-                      disabled={isScanning}
-                      className="flex items-center gap-1.5"
-                    >
-                      {isScanning ? (
-                        <RefreshCw className="h-3.5 w-3.5 animate-spin" />
-                      ) : (
-                        <RefreshCw className="h-3.5 w-3.5" />
-                      )}
-                      {isScanning ? "Scanning..." : "Scan"}
-                    </Button>
+                )}
+              </TabsContent>
+
+              <TabsContent value="usb">
+                {isWebSerialAvailable() ? (
+                  <div className="border rounded p-4 bg-muted/30">
+                    <div className="flex justify-between items-center gap-3">
+                      <div className="flex items-center gap-3">
+                        <Usb className="h-6 w-6 text-muted-foreground" />
+                        <div>
+                          <h3 className="text-sm font-medium">No Device Connected</h3>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Plug in the USB cable, then choose its port. It opens at {formatSerialConfig(webSerialTransport.getSerialConfig())}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          variant="outline"
+                          onClick={openSerialConfigDialog}
+                        >
+                          <Settings className="h-4 w-4 mr-1.5" />
+                          Serial Config
+                        </Button>
+                        <Button
+                          onClick={() => connectToSerialPort()}
+                          disabled={isOpeningPort}
+                        >
+                          {isOpeningPort ? "Opening..." : "Choose Port"}
+                        </Button>
+                      </div>
+                    </div>
                   </div>
-
-                  <div className="border rounded">
-                    {availableDevices.length === 0 ? (
-                      <div className="p-8 text-center text-muted-foreground">
-                        <BluetoothSearching className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                        <p className="text-sm">No devices found</p>
-                        <p className="text-xs mt-1 max-w-xs mx-auto">
-                          Click "Scan" to search for nearby Bluetooth devices.
-                          Make sure your device is powered on and in pairing mode.
+                ) : (
+                  <div className="border rounded p-4 bg-yellow-50">
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                      <div>
+                        <h3 className="text-sm font-medium text-yellow-800">USB Serial Not Supported</h3>
+                        <p className="text-xs text-yellow-700 mt-1">
+                          Your browser doesn't support Web Serial.
+                          Try using Chrome, Edge, or Opera on a desktop computer.
                         </p>
                       </div>
-                    ) : (
-                      <div className="divide-y">
-                        {availableDevices.map((device) => (
-                          <div
-                            key={device.id}
-                            className="p-3 hover:bg-muted/30 transition-colors"
-                          >
-                            <div className="flex justify-between items-center">
-                              <div className="flex items-center gap-3">
-                                <Bluetooth className="h-4 w-4 text-primary" />
-                                <div>
-                                  <h4 className="text-sm font-medium">{device.name || "Unknown Device"}</h4>
-                                  <p className="text-xs text-muted-foreground truncate max-w-[200px]">
-                                    {device.id}
-                                  </p>
-                                </div>
-                              </div>
-                              <Button
-                                size="sm"
-                                onClick={() => connectToDevice(device.id)}
-                              >
-                                Connect
-                              </Button>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                    </div>
                   </div>
-                </div>
-              </div>
-            )
-          ) : (
-            <div className="border rounded p-4 bg-yellow-50">
-              <div className="flex items-start gap-3">
-                <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
-                <div>
-                  <h3 className="text-sm font-medium text-yellow-800">Bluetooth Not Supported</h3>
-                  <p className="text-xs text-yellow-700 mt-1">
-                    Your browser doesn't support Web Bluetooth.
-                    Try using Chrome, Edge, or Opera on a compatible device.
-                  </p>
-                </div>
-              </div>
-            </div>
+                )}
+              </TabsContent>
+            </Tabs>
           )}
         </CardContent>
       </Card>
@@ -1090,13 +1254,18 @@ export const UserDeviceView = () => {
           {/* Left panel - Serial Monitor */}
           <Card className="lg:col-span-3">
             <CardHeader className="pb-3">
-              <CardTitle className="text-lg flex items-center gap-2">
-                <Terminal className="h-5 w-5" />
-                Serial Monitor
-              </CardTitle>
-              <CardDescription>
-                View and send commands to your Bluetooth device
-              </CardDescription>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Terminal className="h-5 w-5" />
+                    Serial Monitor
+                  </CardTitle>
+                  <CardDescription>
+                    View and send commands to your device
+                  </CardDescription>
+                </div>
+                {activeSession && <SessionPresenceIndicator others={presenceOthers} expectedRole="support" />}
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="relative border rounded bg-muted/10 overflow-hidden">
@@ -1111,17 +1280,37 @@ export const UserDeviceView = () => {
                     ) : (
                       <>
                         {serialOutput.map((line, i) => {
-                          // Check if this is a command line (starts with >)
-                          const isCommand = line.startsWith(">");
-                          // Check if it's a support command
-                          const isSupport = line.startsWith("> [Support]");
+                          if (line.kind === 'user' || line.kind === 'support') {
+                            return (
+                              <div
+                                key={i}
+                                className={`py-0.5 ${line.kind === 'support' ? "text-blue-600" : "text-green-600"}`}
+                              >
+                                {line.kind === 'support' ? `> [Support] ${line.text}` : `> ${line.text}`}
+                              </div>
+                            );
+                          }
+
+                          if (line.kind === 'error') {
+                            return (
+                              <div key={i} className="py-0.5 text-red-600">
+                                ! {line.text}
+                              </div>
+                            );
+                          }
+
+                          // Indent responses that belong to a command and name it on hover
+                          const request = line.correlationId
+                            ? serialOutput.find(other => other.kind !== 'device' && other.correlationId === line.correlationId)
+                            : undefined;
 
                           return (
                             <div
                               key={i}
-                              className={`py-0.5 ${isCommand ? (isSupport ? "text-blue-600" : "text-green-600") : ""}`}
+                              className={`py-0.5 ${request ? "pl-4 border-l-2 border-muted" : ""}`}
+                              title={request ? `Response to ${request.text}` : undefined}
                             >
-                              {line}
+                              {line.text}
                             </div>
                           );
                         })}
@@ -1165,7 +1354,7 @@ export const UserDeviceView = () => {
                   />
                 </div>
                 <Button
-                  onClick={sendCommand}
+                  onClick={() => sendCommand()}
                   disabled={isSending || command.trim() === ""}
                 >
                   {isSending ? (
@@ -1187,45 +1376,82 @@ export const UserDeviceView = () => {
                 AT Commands
               </CardTitle>
               <CardDescription>
-                Common commands for your device
+                Build a command for your device
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                {atCommands.map((cmd, index) => (
-                  <div 
-                    key={index} 
-                    className="border rounded p-3 hover:bg-primary/5 transition-colors"
-                  >
-                    <div className="flex items-center justify-between mb-1">
-                      <code className="text-sm font-bold text-primary">{cmd.command}</code>
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6"
-                              onClick={() => copyCommandToInput(cmd.command)}
-                            >
-                              <Copy className="h-3.5 w-3.5" />
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <p>Copy to input</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
-                    </div>
-                    <p className="text-xs text-muted-foreground">{cmd.description}</p>
-                  </div>
-                ))}
-              </div>
+              <AtCommandForm
+                onSubmit={(commandText) => sendCommand(commandText)}
+                disabled={isSending}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Chat with support, only while sharing */}
+          {activeSession && (
+            <SessionChatPanel
+              sessionId={activeSession.id}
+              role="user"
+              senderName={profile?.displayName || profile?.email || "User"}
+              className="lg:col-span-4"
+            />
+          )}
+
+          {/* MQTT provisioning profiles */}
+          <Card className="lg:col-span-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                MQTT Provisioning
+              </CardTitle>
+              <CardDescription>
+                Apply a saved MQTT configuration and verify it against the device
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProvisioningPanel disabled={connectionState !== 'connected'} />
+            </CardContent>
+          </Card>
+
+          {/* Parsed AT+CFG output */}
+          <Card className="lg:col-span-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Device Configuration
+              </CardTitle>
+              <CardDescription>
+                {initialDeviceConfig && deviceConfig !== initialDeviceConfig
+                  ? "Latest configuration compared with the first read of this connection"
+                  : "Configuration reported by AT+CFG"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {deviceConfig ? (
+                <DeviceConfigTable
+                  config={deviceConfig}
+                  compareTo={deviceConfig !== initialDeviceConfig ? initialDeviceConfig : null}
+                />
+              ) : (
+                <div className="text-center text-muted-foreground py-6">
+                  <p className="text-sm">No configuration read yet</p>
+                  <Button variant="outline" size="sm" className="mt-3" onClick={readDeviceConfig} disabled={isReadingConfig}>
+                    Read Config
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
       )}
 
+      {/* Approve or deny support commands, one at a time */}
+      <SupportCommandConsentDialog
+        request={consentQueue[0] ?? null}
+        queuedCount={Math.max(consentQueue.length - 1, 0)}
+        onDecision={handleConsentDecision}
+      />
+
       {/* Share session dialog */}
       <Dialog open={isSessionDialogOpen} onOpenChange={setIsSessionDialogOpen}>
         <DialogContent>
@@ -1255,6 +1481,34 @@ export const UserDeviceView = () => {
                 )}
               />
 
+              <FormField
+                control={sessionForm.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {USER_SESSION_PRIORITIES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Higher priority sessions are picked up first. Support may adjust it.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button
                   type="button"
@@ -1276,7 +1530,7 @@ export const UserDeviceView = () => {
           <DialogHeader>
             <DialogTitle>Serial Configuration</DialogTitle>
             <DialogDescription>
-              Configure serial communication parameters.
+              Used when opening a USB serial port. Bluetooth modules keep their own UART settings.
             </DialogDescription>
           </DialogHeader>
 
@@ -1414,6 +1668,33 @@ export const UserDeviceView = () => {
                 />
               </div>
 
+              <FormField
+                control={serialConfigForm.control}
+                name="lineTerminator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Line Terminator</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select line terminator" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="crlf">CR+LF (\r\n)</SelectItem>
+                        <SelectItem value="lf">LF (\n)</SelectItem>
+                        <SelectItem value="cr">CR (\r)</SelectItem>
+                        <SelectItem value="idle">Idle timeout</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      How incoming data is split into lines
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button
                   type="button"
@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+import authService, { AuthState } from "@/services/AuthService";
+
+export function useAuth(): AuthState {
+  const [state, setState] = useState<AuthState>(authService.getState());
+
+  useEffect(() => {
+    authService.addAuthListener(setState);
+    // The state may have settled between the first render and subscribing
+    setState(authService.getState());
+    return () => authService.removeAuthListener(setState);
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import sessionService, { Session } from "@/services/SessionService";
+import realtimeSyncService from "@/services/RealtimeSyncService";
+import type { QueueStatus } from "@/lib/sessionQueue";
+
+// Queue position of the user's own session. Null once an agent has picked it up
+export function useQueueStatus(sessionId: string | null): QueueStatus | null {
+  const [status, setStatus] = useState<QueueStatus | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setStatus(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const refresh = () => {
+      sessionService.getQueueStatus(sessionId).then(result => {
+        if (isCurrent) setStatus(result);
+      });
+    };
+
+    // Our own row tells us when an agent claims or releases the session; the queue
+    // channel tells us when anything ahead of us changes, e.g. an agent taking the next session
+    let assignedAgentId: string | null | undefined;
+    const handleSessionsUpdate = (sessions: Session[]) => {
+      const session = sessions.find(candidate => candidate.id === sessionId);
+      if (session && session.assignedAgentId !== assignedAgentId) {
+        assignedAgentId = session.assignedAgentId;
+        refresh();
+      }
+    };
+
+    refresh();
+    realtimeSyncService.addQueueListener(refresh);
+    sessionService.addSessionsListener(handleSessionsUpdate);
+
+    return () => {
+      isCurrent = false;
+      realtimeSyncService.removeQueueListener(refresh);
+      sessionService.removeSessionsListener(handleSessionsUpdate);
+    };
+  }, [sessionId]);
+
+  return status;
+}
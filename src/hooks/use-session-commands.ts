@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import realtimeSyncService, { FeedState } from "@/services/RealtimeSyncService";
+import type { SessionCommand } from "@/services/SessionService";
+
+const NO_SESSION: FeedState<SessionCommand> = { records: [], status: 'connecting' };
+
+// Live transcript of a session, shared with every other component watching the same session
+export function useSessionCommands(sessionId: string | null): FeedState<SessionCommand> {
+  const [state, setState] = useState<FeedState<SessionCommand>>(NO_SESSION);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setState(NO_SESSION);
+      return;
+    }
+
+    realtimeSyncService.addCommandsListener(sessionId, setState);
+    return () => realtimeSyncService.removeCommandsListener(sessionId, setState);
+  }, [sessionId]);
+
+  return state;
+}
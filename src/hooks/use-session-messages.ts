@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import realtimeSyncService, { FeedState } from "@/services/RealtimeSyncService";
+import type { SessionMessage } from "@/services/SessionService";
+
+const NO_SESSION: FeedState<SessionMessage> = { records: [], status: 'connecting' };
+
+// Live chat of a session, oldest message first
+export function useSessionMessages(sessionId: string | null): FeedState<SessionMessage> {
+  const [state, setState] = useState<FeedState<SessionMessage>>(NO_SESSION);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setState(NO_SESSION);
+      return;
+    }
+
+    realtimeSyncService.addMessagesListener(sessionId, setState);
+    return () => realtimeSyncService.removeMessagesListener(sessionId, setState);
+  }, [sessionId]);
+
+  return state;
+}
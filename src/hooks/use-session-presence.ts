@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import realtimeSyncService, { SessionPresence } from "@/services/RealtimeSyncService";
+
+// How long after the last keystroke we still count as typing
+const TYPING_IDLE_MS = 3000;
+
+// Joins the session's presence channel while sessionId is set and returns the other participants
+export function useSessionPresence(
+  sessionId: string | null,
+  self: Omit<SessionPresence, 'onlineAt'> | null
+): SessionPresence[] {
+  const [others, setOthers] = useState<SessionPresence[]>([]);
+  const userId = self?.userId ?? null;
+  // Later changes to self are sent as updates below rather than by rejoining
+  const selfRef = useRef(self);
+  selfRef.current = self;
+  const { name, role, deviceConnected, typing } = self ?? {};
+
+  useEffect(() => {
+    if (!sessionId || !selfRef.current) {
+      setOthers([]);
+      return;
+    }
+
+    realtimeSyncService.joinPresence(sessionId, selfRef.current, setOthers);
+    return () => {
+      realtimeSyncService.leavePresence(sessionId);
+      setOthers([]);
+    };
+  }, [sessionId, userId]);
+
+  useEffect(() => {
+    if (!sessionId || !userId) return;
+    realtimeSyncService.updatePresence(sessionId, { name, role, deviceConnected, typing });
+  }, [sessionId, userId, name, role, deviceConnected, typing]);
+
+  return others;
+}
+
+// True while the value keeps changing, false once it has been idle for a few seconds or is empty
+export function useIsTyping(value: string): boolean {
+  const [isTyping, setIsTyping] = useState(false);
+
+  useEffect(() => {
+    if (!value) {
+      setIsTyping(false);
+      return;
+    }
+
+    setIsTyping(true);
+    const timeoutId = window.setTimeout(() => setIsTyping(false), TYPING_IDLE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [value]);
+
+  return isTyping;
+}
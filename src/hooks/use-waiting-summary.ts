@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import sessionService from "@/services/SessionService";
+import realtimeSyncService from "@/services/RealtimeSyncService";
+import type { WaitingSummary } from "@/lib/sessionQueue";
+
+// How many sessions wait for an agent, per priority. Refreshed whenever the queue changes
+export function useWaitingSummary(): WaitingSummary[] {
+  const [summary, setSummary] = useState<WaitingSummary[]>([]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const refresh = () => {
+      sessionService.getWaitingSummary().then(result => {
+        if (isCurrent) setSummary(result);
+      });
+    };
+
+    refresh();
+    realtimeSyncService.addQueueListener(refresh);
+
+    return () => {
+      isCurrent = false;
+      realtimeSyncService.removeQueueListener(refresh);
+    };
+  }, []);
+
+  return summary;
+}
@@ -9,31 +9,145 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      profiles: {
+        Row: {
+          created_at: string
+          display_name: string | null
+          email: string
+          id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          email: string
+          id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          email?: string
+          id?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      provisioning_profiles: {
+        Row: {
+          client_id: string
+          created_at: string
+          host: string
+          id: string
+          name: string
+          password: string
+          payload_type: string
+          port: number
+          pub_topic: string
+          sub_topic: string
+          updated_at: string
+          username: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          host: string
+          id?: string
+          name: string
+          password: string
+          payload_type?: string
+          port: number
+          pub_topic: string
+          sub_topic: string
+          updated_at?: string
+          username: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          host?: string
+          id?: string
+          name?: string
+          password?: string
+          payload_type?: string
+          port?: number
+          pub_topic?: string
+          sub_topic?: string
+          updated_at?: string
+          username?: string
+        }
+        Relationships: []
+      }
       remote_sessions: {
         Row: {
+          assigned_agent_id: string | null
+          assigned_agent_name: string | null
+          claimed_at: string | null
+          control_policy: string
           device: string
+          device_state: string
+          device_state_at: string | null
+          device_type: string | null
+          end_reason: string | null
+          ended_at: string | null
+          handed_off_at: string | null
+          handed_off_by: string | null
+          handoff_note: string | null
           id: string
           is_active: boolean
           last_active: string
           name: string
+          owner_id: string | null
+          priority: string
+          queued_at: string
           start_time: string
           user_name: string
         }
         Insert: {
+          assigned_agent_id?: string | null
+          assigned_agent_name?: string | null
+          claimed_at?: string | null
+          control_policy?: string
           device: string
+          device_state?: string
+          device_state_at?: string | null
+          device_type?: string | null
+          end_reason?: string | null
+          ended_at?: string | null
+          handed_off_at?: string | null
+          handed_off_by?: string | null
+          handoff_note?: string | null
           id?: string
           is_active?: boolean
           last_active?: string
           name: string
+          owner_id?: string | null
+          priority?: string
+          queued_at?: string
           start_time?: string
           user_name: string
         }
         Update: {
+          assigned_agent_id?: string | null
+          assigned_agent_name?: string | null
+          claimed_at?: string | null
+          control_policy?: string
           device?: string
+          device_state?: string
+          device_state_at?: string | null
+          device_type?: string | null
+          end_reason?: string | null
+          ended_at?: string | null
+          handed_off_at?: string | null
+          handed_off_by?: string | null
+          handoff_note?: string | null
           id?: string
           is_active?: boolean
           last_active?: string
           name?: string
+          owner_id?: string | null
+          priority?: string
+          queued_at?: string
           start_time?: string
           user_name?: string
         }
@@ -41,25 +155,55 @@ export type Database = {
       }
       session_commands: {
         Row: {
+          acked_at: string | null
+          acked_by: string | null
           command: string
+          consent: string | null
+          consent_at: string | null
           id: string
+          in_reply_to: string | null
           sender: string
+          sender_id: string | null
           session_id: string
+          status: string | null
+          status_at: string | null
+          status_detail: string | null
           timestamp: string
+          updated_at: string
         }
         Insert: {
+          acked_at?: string | null
+          acked_by?: string | null
           command: string
+          consent?: string | null
+          consent_at?: string | null
           id?: string
+          in_reply_to?: string | null
           sender: string
+          sender_id?: string | null
           session_id: string
+          status?: string | null
+          status_at?: string | null
+          status_detail?: string | null
           timestamp?: string
+          updated_at?: string
         }
         Update: {
+          acked_at?: string | null
+          acked_by?: string | null
           command?: string
+          consent?: string | null
+          consent_at?: string | null
           id?: string
+          in_reply_to?: string | null
           sender?: string
+          sender_id?: string | null
           session_id?: string
+          status?: string | null
+          status_at?: string | null
+          status_detail?: string | null
           timestamp?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -71,12 +215,289 @@ export type Database = {
           },
         ]
       }
+      session_config_snapshots: {
+        Row: {
+          captured_at: string
+          captured_by: string
+          config: Json
+          id: string
+          session_id: string
+        }
+        Insert: {
+          captured_at?: string
+          captured_by?: string
+          config: Json
+          id?: string
+          session_id: string
+        }
+        Update: {
+          captured_at?: string
+          captured_by?: string
+          config?: Json
+          id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_config_snapshots_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "remote_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_device_events: {
+        Row: {
+          created_at: string
+          device_state: string
+          id: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_state: string
+          id?: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          device_state?: string
+          id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_device_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "remote_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_join_codes: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          session_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          expires_at: string
+          session_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_join_codes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "remote_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          sender: string
+          sender_id: string | null
+          sender_name: string
+          session_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          sender: string
+          sender_id?: string | null
+          sender_name: string
+          session_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          sender?: string
+          sender_id?: string | null
+          sender_name?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "remote_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_observers: {
+        Row: {
+          agent_id: string
+          agent_name: string
+          joined_at: string
+          session_id: string
+        }
+        Insert: {
+          agent_id: string
+          agent_name: string
+          joined_at?: string
+          session_id: string
+        }
+        Update: {
+          agent_id?: string
+          agent_name?: string
+          joined_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_observers_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "remote_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      acknowledge_command: {
+        Args: { command_id: string; client_id: string }
+        Returns: boolean
+      }
+      agent_display_name: {
+        Args: { agent_id: string }
+        Returns: string
+      }
+      assign_session_agent: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      can_access_session: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      claim_next_session: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      create_session_join_code: {
+        Args: { target_session_id: string }
+        Returns: {
+          code: string
+          expires_at: string
+        }[]
+      }
+      get_provisioning_profile_password: {
+        Args: { profile_id: string }
+        Returns: string | null
+      }
+      get_queue_status: {
+        Args: { target_session_id: string }
+        Returns: {
+          queue_position: number
+          waiting_count: number
+          estimated_wait_seconds: number | null
+        }[]
+      }
+      get_waiting_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          priority: string
+          waiting_count: number
+          oldest_queued_at: string
+        }[]
+      }
+      invite_session_observer: {
+        Args: { target_session_id: string; observer_id: string }
+        Returns: boolean
+      }
+      is_archived_session: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      is_session_participant: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      is_support_agent: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      list_provisioning_profiles: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          name: string
+          payload_type: string
+          host: string
+          port: number
+          client_id: string
+          username: string
+          pub_topic: string
+          sub_topic: string
+        }[]
+      }
+      observe_session: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      reap_stale_sessions: {
+        Args: { heartbeat_timeout?: unknown }
+        Returns: number
+      }
+      record_command_consent: {
+        Args: { command_id: string; decision: string }
+        Returns: boolean
+      }
+      redeem_session_join_code: {
+        Args: { join_code: string }
+        Returns: string | null
+      }
+      release_session_agent: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      revoke_session_join_code: {
+        Args: { target_session_id: string }
+        Returns: undefined
+      }
+      session_priority_rank: {
+        Args: { priority: string }
+        Returns: number
+      }
+      set_session_priority: {
+        Args: { target_session_id: string; new_priority: string }
+        Returns: boolean
+      }
+      stop_observing_session: {
+        Args: { target_session_id: string }
+        Returns: undefined
+      }
+      transfer_session_agent: {
+        Args: { target_session_id: string; new_agent_id: string; note?: string | null }
+        Returns: boolean
+      }
+      update_command_status: {
+        Args: { command_id: string; new_status: string; detail?: string | null }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,295 @@
+import * as z from "zod";
+
+// Shared catalogue of the AT commands our devices understand
+// Both the user and support views build their command forms from this list
+
+export type AtParamType = 'string' | 'integer' | 'enum';
+
+export interface AtCommandParam {
+  name: string;
+  label: string;
+  type: AtParamType;
+  required: boolean;
+  description?: string;
+  min?: number; // integer only
+  max?: number; // integer only
+  maxLength?: number; // string only
+  options?: { value: string; label: string }[]; // enum only
+  secret?: boolean; // Render as a password field
+}
+
+// set:    AT+CMD=<p1>,<p2>
+// query:  AT+CMD?
+// action: AT+CMD
+export type AtCommandKind = 'set' | 'query' | 'action';
+
+export interface AtCommandDefinition {
+  command: string; // Base command without suffix, e.g. "AT+SERVADDR"
+  kind: AtCommandKind;
+  description: string;
+  // Read-only commands only report state; anything else changes the device
+  readOnly: boolean;
+  params: AtCommandParam[];
+}
+
+// Values are sent inside a single CRLF-terminated line, so they must not contain line breaks
+const CONTROL_CHARS = /[\r\n\0]/;
+
+export const atCommandCatalog: AtCommandDefinition[] = [
+  {
+    command: "AT+PRO",
+    kind: 'set',
+    description: "Set the uplink protocol and payload type",
+    readOnly: false,
+    params: [
+      {
+        name: "protocol",
+        label: "Protocol",
+        type: 'enum',
+        required: true,
+        options: [
+          { value: "1", label: "CoAP" },
+          { value: "2", label: "UDP" },
+          { value: "3", label: "MQTT" },
+          { value: "4", label: "TCP" }
+        ]
+      },
+      {
+        name: "payloadType",
+        label: "Payload Type",
+        type: 'enum',
+        required: true,
+        options: [
+          { value: "0", label: "Hex" },
+          { value: "5", label: "JSON" }
+        ]
+      }
+    ]
+  },
+  {
+    command: "AT+SERVADDR",
+    kind: 'set',
+    description: "Set MQTT server address and port",
+    readOnly: false,
+    params: [
+      { name: "host", label: "Host", type: 'string', required: true, maxLength: 128 },
+      { name: "port", label: "Port", type: 'integer', required: true, min: 1, max: 65535 }
+    ]
+  },
+  {
+    command: "AT+CLIENT",
+    kind: 'set',
+    description: "Set up the CLIENT of MQTT",
+    readOnly: false,
+    params: [
+      { name: "clientId", label: "Client ID", type: 'string', required: true, maxLength: 64 }
+    ]
+  },
+  {
+    command: "AT+UNAME",
+    kind: 'set',
+    description: "Set the username of MQTT",
+    readOnly: false,
+    params: [
+      { name: "username", label: "Username", type: 'string', required: true, maxLength: 64 }
+    ]
+  },
+  {
+    command: "AT+PWD",
+    kind: 'set',
+    description: "Set the password of MQTT",
+    readOnly: false,
+    params: [
+      { name: "password", label: "Password", type: 'string', required: true, maxLength: 64, secret: true }
+    ]
+  },
+  {
+    command: "AT+PUBTOPIC",
+    kind: 'set',
+    description: "Set the sending topic of MQTT",
+    readOnly: false,
+    params: [
+      { name: "topic", label: "Topic", type: 'string', required: true, maxLength: 64 }
+    ]
+  },
+  {
+    command: "AT+SUBTOPIC",
+    kind: 'set',
+    description: "Set the subscription topic of MQTT",
+    readOnly: false,
+    params: [
+      { name: "topic", label: "Topic", type: 'string', required: true, maxLength: 64 }
+    ]
+  },
+  {
+    command: "AT+CFG",
+    kind: 'action',
+    description: "Print the current device configuration",
+    readOnly: true,
+    params: []
+  },
+  {
+    command: "AT+VERSION",
+    kind: 'query',
+    description: "Check firmware version",
+    readOnly: true,
+    params: []
+  },
+  {
+    command: "AT+BAUD",
+    kind: 'query',
+    description: "Check current baud rate",
+    readOnly: true,
+    params: []
+  },
+  {
+    command: "AT+RESET",
+    kind: 'action',
+    description: "Restart the device",
+    readOnly: false,
+    params: []
+  },
+  {
+    command: "AT+CONFIG",
+    kind: 'set',
+    description: "Change configuration",
+    readOnly: false,
+    params: [
+      { name: "param", label: "Parameter", type: 'string', required: true, maxLength: 32 },
+      { name: "value", label: "Value", type: 'string', required: true, maxLength: 64 }
+    ]
+  }
+];
+
+export function getAtCommand(command: string): AtCommandDefinition | undefined {
+  return atCommandCatalog.find(def => def.command === command);
+}
+
+// Look up the catalogue entry for a raw command line such as "AT+SERVADDR=host,1883"
+export function findAtCommandForLine(line: string): AtCommandDefinition | undefined {
+  const trimmed = line.trim().toUpperCase();
+  const base = trimmed.split(/[=?]/)[0];
+  const def = getAtCommand(base);
+  if (!def) return undefined;
+
+  const suffix = trimmed.slice(base.length);
+  if (def.kind === 'set' && suffix.startsWith('=')) return def;
+  if (def.kind === 'query' && suffix === '?') return def;
+  if (def.kind === 'action' && suffix === '') return def;
+  return undefined;
+}
+
+export function isReadOnlyCommand(line: string): boolean {
+  return findAtCommandForLine(line)?.readOnly ?? false;
+}
+
+// Arguments are separated by commas. Only the last argument may contain one: the device reads it to the end of the line
+function buildParamSchema(param: AtCommandParam, isLast: boolean): z.ZodTypeAny {
+  switch (param.type) {
+    case 'integer': {
+      let schema = z.coerce.number({ invalid_type_error: `${param.label} must be a number` })
+        .int(`${param.label} must be a whole number`);
+      if (param.min !== undefined) schema = schema.min(param.min, `${param.label} must be at least ${param.min}`);
+      if (param.max !== undefined) schema = schema.max(param.max, `${param.label} must be at most ${param.max}`);
+      return param.required ? schema : schema.optional();
+    }
+    case 'enum': {
+      const values = (param.options ?? []).map(option => option.value);
+      const schema = z.string().refine(value => values.includes(value), {
+        message: `${param.label} must be one of ${values.join(', ')}`
+      });
+      return param.required ? schema : schema.optional();
+    }
+    default: {
+      const schema = z.string().superRefine((value, ctx) => {
+        if (CONTROL_CHARS.test(value)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${param.label} must not contain line breaks` });
+        }
+        if (!isLast && value.includes(',')) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${param.label} must not contain commas` });
+        }
+        if (param.required && value.trim().length === 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${param.label} is required` });
+        }
+        if (param.maxLength !== undefined && value.length > param.maxLength) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${param.label} must not be longer than ${param.maxLength} characters`
+          });
+        }
+      });
+      return param.required ? schema : schema.optional();
+    }
+  }
+}
+
+// Zod schema for a command's parameters, keyed by param name
+export function buildAtCommandSchema(def: AtCommandDefinition) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  def.params.forEach((param, index) => {
+    shape[param.name] = buildParamSchema(param, index === def.params.length - 1);
+  });
+  return z.object(shape);
+}
+
+// Validate the values and build the command line. Throws a ZodError if any value is invalid
+export function buildAtCommand(def: AtCommandDefinition, values: Record<string, unknown> = {}): string {
+  const parsed = buildAtCommandSchema(def).parse(values);
+
+  switch (def.kind) {
+    case 'query':
+      return `${def.command}?`;
+    case 'action':
+      return def.command;
+    default: {
+      // Drop trailing optional params that were left empty
+      const args = def.params.map(param => parsed[param.name]);
+      while (args.length > 0 && (args[args.length - 1] === undefined || args[args.length - 1] === '')) {
+        args.pop();
+      }
+      return `${def.command}=${args.map(arg => arg ?? '').join(',')}`;
+    }
+  }
+}
+
+// Check a free-typed command line before it is sent. Returns an error message, or null if it's fine.
+// Unknown commands are let through so technicians can still reach commands missing from the catalogue
+export function validateAtCommandLine(line: string): string | null {
+  if (line.trim() === '') {
+    return "Command is empty";
+  }
+
+  if (CONTROL_CHARS.test(line)) {
+    return "Command must be a single line";
+  }
+
+  const def = findAtCommandForLine(line);
+  if (!def || def.kind !== 'set') {
+    return null;
+  }
+
+  const trimmed = line.trim();
+  const args = trimmed.slice(trimmed.indexOf('=') + 1).split(',');
+  const lastParam = def.params[def.params.length - 1];
+  if (args.length > def.params.length) {
+    if (lastParam?.type !== 'string') {
+      return `${def.command} takes at most ${def.params.length} parameter(s)`;
+    }
+    // A trailing string argument keeps its commas, the same way buildAtCommand writes it
+    args.splice(def.params.length - 1, args.length, args.slice(def.params.length - 1).join(','));
+  }
+
+  const values: Record<string, string> = {};
+  def.params.forEach((param, index) => {
+    if (args[index] !== undefined) {
+      values[param.name] = args[index];
+    }
+  });
+
+  const result = buildAtCommandSchema(def).safeParse(values);
+  if (!result.success) {
+    return result.error.issues[0]?.message ?? `Invalid parameters for ${def.command}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,24 @@
+import type { SessionCommand } from "@/services/SessionService";
+import { CONSENT_TIMEOUT_SECONDS } from "@/lib/controlPolicy";
+
+// Lifecycle of a support command, reported back by the user's client
+export type CommandStatus = 'queued' | 'delivered' | 'executed' | 'failed';
+
+// A command still queued after this long was most likely not seen by any user client
+export const COMMAND_PICKUP_TIMEOUT_MS = 15000;
+
+export function isPickupOverdue(command: SessionCommand, now: Date = new Date()): boolean {
+  if (command.status !== 'queued') return false;
+  const queuedAt = new Date(command.status_at ?? command.timestamp);
+  return now.getTime() - queuedAt.getTime() > COMMAND_PICKUP_TIMEOUT_MS;
+}
+
+// A delivered command should be decided and sent by the time the consent prompt expires. Past that,
+// the client that took it was most likely closed mid-prompt
+export const COMMAND_COMPLETION_TIMEOUT_MS = CONSENT_TIMEOUT_SECONDS * 1000 + COMMAND_PICKUP_TIMEOUT_MS;
+
+export function isCompletionOverdue(command: SessionCommand, now: Date = new Date()): boolean {
+  if (command.status !== 'delivered') return false;
+  const deliveredAt = new Date(command.consent_at ?? command.status_at ?? command.timestamp);
+  return now.getTime() - deliveredAt.getTime() > COMMAND_COMPLETION_TIMEOUT_MS;
+}
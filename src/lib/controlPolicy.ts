@@ -0,0 +1,46 @@
+import { isReadOnlyCommand } from "@/lib/atCommands";
+
+// How much control the user hands to support for a shared session
+export type ControlPolicy = 'always-ask' | 'read-only' | 'full-control';
+
+// Recorded on each support command once the user's client has dealt with it
+export type ConsentDecision = 'auto-approved' | 'approved' | 'denied' | 'expired';
+
+export const DEFAULT_CONTROL_POLICY: ControlPolicy = 'always-ask';
+
+// Seconds the user has to answer before a support command is dropped
+export const CONSENT_TIMEOUT_SECONDS = 30;
+
+export const CONTROL_POLICIES: { value: ControlPolicy; label: string; description: string }[] = [
+  {
+    value: 'always-ask',
+    label: "Always ask",
+    description: "Approve every command support sends"
+  },
+  {
+    value: 'read-only',
+    label: "Auto-run read-only",
+    description: "Commands that only read the device run straight away, anything else asks first"
+  },
+  {
+    value: 'full-control',
+    label: "Full control",
+    description: "Support commands run without asking"
+  }
+];
+
+export function getControlPolicyLabel(policy: ControlPolicy): string {
+  return CONTROL_POLICIES.find(p => p.value === policy)?.label ?? policy;
+}
+
+// Read-only is judged from the AT command catalogue; commands missing from it always ask
+export function requiresConsent(policy: ControlPolicy, command: string): boolean {
+  switch (policy) {
+    case 'full-control':
+      return false;
+    case 'read-only':
+      return !isReadOnlyCommand(command);
+    default:
+      return true;
+  }
+}
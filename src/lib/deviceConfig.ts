@@ -0,0 +1,146 @@
+import { getAtCommand } from "@/lib/atCommands";
+
+// Device configuration as reported by AT+CFG, keyed by command name without the "AT+" prefix
+// e.g. { PRO: "3,0", SERVADDR: "broker.example.com,1883" }
+export type DeviceConfig = Record<string, string>;
+
+// Well-known keys in the order we want to show them
+export const CONFIG_FIELDS: { key: string; label: string; secret?: boolean }[] = [
+  { key: "PRO", label: "Protocol" },
+  { key: "SERVADDR", label: "Server Address" },
+  { key: "CLIENT", label: "Client ID" },
+  { key: "UNAME", label: "Username" },
+  { key: "PWD", label: "Password", secret: true },
+  { key: "PUBTOPIC", label: "Publish Topic" },
+  { key: "SUBTOPIC", label: "Subscribe Topic" },
+  { key: "DEUI", label: "Device EUI" },
+  { key: "APN", label: "APN" },
+  { key: "TDC", label: "Transmit Interval" }
+];
+
+// Matches "AT+SERVADDR=broker,1883" and the "AT+SERVADDR: broker,1883" variant some firmwares print
+const CONFIG_LINE = /^AT\+([A-Z0-9_]+)\s*[=:]\s*(.*)$/i;
+
+// Turn the lines of an AT+CFG response into a config object. Banner lines and the final OK are ignored
+export function parseAtCfgResponse(lines: string[]): DeviceConfig {
+  const config: DeviceConfig = {};
+
+  lines.forEach(line => {
+    const match = line.trim().match(CONFIG_LINE);
+    if (match) {
+      config[match[1].toUpperCase()] = match[2].trim();
+    }
+  });
+
+  return config;
+}
+
+export function getConfigLabel(key: string): string {
+  return CONFIG_FIELDS.find(field => field.key === key)?.label ?? `AT+${key}`;
+}
+
+export function isSecretConfigKey(key: string): boolean {
+  return CONFIG_FIELDS.some(field => field.key === key && field.secret);
+}
+
+// Hide the value of secret settings in a transcript line, e.g. "AT+PWD=hunter2" becomes "AT+PWD=••••••••"
+export function redactSecretConfigLine(line: string): string {
+  const match = line.trim().match(CONFIG_LINE);
+  if (!match || !isSecretConfigKey(match[1].toUpperCase())) {
+    return line;
+  }
+  return line.replace(/([=:]\s*).*$/, "$1••••••••");
+}
+
+// The same for a whole config, before it is stored with a shared session
+export function redactSecretConfig(config: DeviceConfig): DeviceConfig {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [key, isSecretConfigKey(key) ? "••••••••" : value])
+  );
+}
+
+// Known fields first, then whatever else the firmware reported, alphabetically
+export function getOrderedConfigKeys(...configs: (DeviceConfig | null | undefined)[]): string[] {
+  const keys = new Set<string>();
+  configs.forEach(config => Object.keys(config ?? {}).forEach(key => keys.add(key)));
+
+  const known = CONFIG_FIELDS.map(field => field.key).filter(key => keys.has(key));
+  const rest = Array.from(keys).filter(key => !known.includes(key)).sort();
+  return [...known, ...rest];
+}
+
+// Human readable value, e.g. "3,0" for PRO becomes "MQTT / Hex (3,0)"
+export function formatConfigValue(key: string, value: string | undefined): string {
+  if (value === undefined) return "—";
+
+  const def = getAtCommand(`AT+${key}`);
+  if (!def || !def.params.some(param => param.type === 'enum')) {
+    return value;
+  }
+
+  const labels = value.split(',').map((part, index) => {
+    const param = def.params[index];
+    return param?.options?.find(option => option.value === part.trim())?.label ?? part;
+  });
+  return `${labels.join(' / ')} (${value})`;
+}
+
+export function diffConfigs(before: DeviceConfig, after: DeviceConfig): string[] {
+  return getOrderedConfigKeys(before, after).filter(key => before[key] !== after[key]);
+}
+
+const AT_CFG_COMMAND = /^AT\+CFG$/i;
+const AT_CFG_END = /^(OK|ERROR)\b/;
+const AT_CFG_TIMEOUT_MS = 5000;
+
+// Watches the serial record stream and parses the response every time AT+CFG is sent,
+// whether the user or support issued it. Feed it records through handleRecord
+export function createAtCfgCollector(onConfig: (config: DeviceConfig, requestedBy: string) => void) {
+  let collecting: string[] | null = null;
+  let requestedBy = 'user';
+  let timeoutId: number | null = null;
+
+  const finish = () => {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+    const lines = collecting;
+    collecting = null;
+
+    if (lines) {
+      const config = parseAtCfgResponse(lines);
+      if (Object.keys(config).length > 0) {
+        onConfig(config, requestedBy);
+      }
+    }
+  };
+
+  return {
+    handleRecord(record: { direction: 'rx' | 'tx'; text: string; sender?: string }) {
+      if (record.direction === 'tx') {
+        if (AT_CFG_COMMAND.test(record.text.trim())) {
+          finish();
+          collecting = [];
+          requestedBy = record.sender ?? 'user';
+          timeoutId = window.setTimeout(finish, AT_CFG_TIMEOUT_MS);
+        }
+        return;
+      }
+
+      if (collecting) {
+        collecting.push(record.text);
+        if (AT_CFG_END.test(record.text.trim())) {
+          finish();
+        }
+      }
+    },
+    dispose() {
+      if (timeoutId !== null) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+      collecting = null;
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { buildAtCommand, getAtCommand } from "@/lib/atCommands";
+import { DeviceConfig, getConfigLabel } from "@/lib/deviceConfig";
+
+// A complete MQTT setup that can be applied to a device in one go
+export interface MqttProfile {
+  id?: string;
+  name: string;
+  payloadType: string; // "0" hex or "5" JSON, see AT+PRO
+  host: string;
+  port: number;
+  clientId: string;
+  username: string;
+  password: string;
+  pubTopic: string;
+  subTopic: string;
+}
+
+export type ProvisioningStepStatus = 'unchanged' | 'pending' | 'applied' | 'failed' | 'skipped';
+
+export interface ProvisioningStep {
+  key: string; // AT+CFG key, e.g. "SERVADDR"
+  label: string;
+  command: string; // Full command line that sets the desired value
+  previous: string | undefined;
+  desired: string;
+  status: ProvisioningStepStatus;
+  error?: string;
+}
+
+export interface VerificationResult {
+  key: string;
+  label: string;
+  expected: string;
+  actual: string | undefined;
+  passed: boolean;
+}
+
+export interface ProvisioningReport {
+  profileName: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  steps: ProvisioningStep[];
+  verification: VerificationResult[];
+  passed: boolean;
+  error?: string; // Set when the run stopped before verification, e.g. AT+CFG could not be read
+}
+
+const MQTT_PROTOCOL = "3";
+
+// Desired AT+CFG values for a profile, in the order the commands are sent
+function getDesiredParams(profile: MqttProfile): { key: string; values: Record<string, unknown> }[] {
+  return [
+    { key: "PRO", values: { protocol: MQTT_PROTOCOL, payloadType: profile.payloadType } },
+    { key: "SERVADDR", values: { host: profile.host, port: profile.port } },
+    { key: "CLIENT", values: { clientId: profile.clientId } },
+    { key: "UNAME", values: { username: profile.username } },
+    { key: "PWD", values: { password: profile.password } },
+    { key: "PUBTOPIC", values: { topic: profile.pubTopic } },
+    { key: "SUBTOPIC", values: { topic: profile.subTopic } }
+  ];
+}
+
+// The value AT+CFG reports is whatever follows "=" in the set command
+function commandValue(command: string): string {
+  return command.slice(command.indexOf('=') + 1);
+}
+
+// Diff a profile against the current device configuration. Throws if the profile holds an invalid value
+export function planProvisioning(profile: MqttProfile, current: DeviceConfig): ProvisioningStep[] {
+  return getDesiredParams(profile).map(({ key, values }) => {
+    const def = getAtCommand(`AT+${key}`);
+    if (!def) {
+      throw new Error(`AT+${key} is missing from the command catalogue`);
+    }
+
+    const command = buildAtCommand(def, values);
+    const desired = commandValue(command);
+    const previous = current[key];
+
+    return {
+      key,
+      label: getConfigLabel(key),
+      command,
+      previous,
+      desired,
+      status: previous === desired ? 'unchanged' : 'pending'
+    };
+  });
+}
+
+export function verifyProvisioning(steps: ProvisioningStep[], readBack: DeviceConfig): VerificationResult[] {
+  return steps.map(step => ({
+    key: step.key,
+    label: step.label,
+    expected: step.desired,
+    actual: readBack[step.key],
+    passed: readBack[step.key] === step.desired
+  }));
+}
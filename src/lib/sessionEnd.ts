@@ -0,0 +1,27 @@
+// Why a session stopped. Set by the database when is_active turns false, see set_session_end()
+export type SessionEndReason = 'user_ended' | 'timed_out' | 'agent_closed';
+
+export const SESSION_END_REASONS: { value: SessionEndReason; label: string; description: string; badgeClassName: string }[] = [
+  {
+    value: 'user_ended',
+    label: "User ended",
+    description: "The user stopped sharing their device.",
+    badgeClassName: "bg-slate-100 text-slate-700"
+  },
+  {
+    value: 'timed_out',
+    label: "Timed out",
+    description: "The user's app stopped responding, probably closed without ending the session.",
+    badgeClassName: "bg-amber-100 text-amber-700"
+  },
+  {
+    value: 'agent_closed',
+    label: "Agent closed",
+    description: "A support agent closed the session.",
+    badgeClassName: "bg-blue-100 text-blue-700"
+  }
+];
+
+export function getEndReasonOption(reason: SessionEndReason) {
+  return SESSION_END_REASONS.find(option => option.value === reason) ?? SESSION_END_REASONS[0];
+}
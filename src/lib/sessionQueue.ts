@@ -0,0 +1,53 @@
+// How urgently a user needs help. Waiting sessions are served highest priority first
+export type SessionPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+// Users share at most as high. Only support raises a session to urgent, see cap_session_priority()
+export type UserSessionPriority = Exclude<SessionPriority, 'urgent'>;
+
+export const DEFAULT_SESSION_PRIORITY: UserSessionPriority = 'normal';
+
+// Highest first, matching session_priority_rank() in the database
+export const SESSION_PRIORITIES: { value: SessionPriority; label: string; badgeClassName: string }[] = [
+  { value: 'urgent', label: "Urgent", badgeClassName: "bg-red-100 text-red-700" },
+  { value: 'high', label: "High", badgeClassName: "bg-orange-100 text-orange-700" },
+  { value: 'normal', label: "Normal", badgeClassName: "bg-slate-100 text-slate-700" },
+  { value: 'low', label: "Low", badgeClassName: "bg-slate-50 text-slate-500" }
+];
+
+export const USER_SESSION_PRIORITIES = SESSION_PRIORITIES.filter(option => option.value !== 'urgent');
+
+// Where the user's own session stands, as reported by get_queue_status(). Agents take sessions in
+// exactly this order with claim_next_session()
+export interface QueueStatus {
+  position: number;
+  waitingCount: number;
+  // Null until some sessions have been picked up recently
+  estimatedWaitSeconds: number | null;
+}
+
+export function getPriorityOption(priority: SessionPriority) {
+  return SESSION_PRIORITIES.find(option => option.value === priority) ?? SESSION_PRIORITIES[2];
+}
+
+// Sessions waiting at one priority, as reported to agents by get_waiting_summary()
+export interface WaitingSummary {
+  priority: SessionPriority;
+  waitingCount: number;
+  oldestQueuedAt: Date;
+}
+
+// In seconds
+export function getWaitTime(queuedAt: Date, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - queuedAt.getTime()) / 1000));
+}
+
+// Formatted as "<1m", "5m" or "1h 5m"
+export function formatWaitTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  return minutes > 0 ? `${minutes}m` : "<1m";
+}
@@ -0,0 +1,101 @@
+import type { SessionDeviceEvent, SessionTranscript } from "@/services/SessionHistoryService";
+import type { SessionCommand } from "@/services/SessionService";
+
+// Playback speeds offered in replay mode, as multiples of real time
+export const REPLAY_SPEEDS = [1, 2, 4, 8, 16, 32];
+
+export type ReplayMarkerKind = 'support' | 'user' | 'error' | 'disconnect';
+
+export const REPLAY_MARKER_STYLES: Record<ReplayMarkerKind, { label: string; className: string }> = {
+  support: { label: "Support command", className: "bg-blue-500" },
+  user: { label: "User command", className: "bg-yellow-400" },
+  error: { label: "Error", className: "bg-red-500" },
+  disconnect: { label: "Device disconnected", className: "bg-orange-500" }
+};
+
+// Something worth finding on the timeline, at its offset from the start of the session
+export interface ReplayMarker {
+  kind: ReplayMarkerKind;
+  offsetMs: number;
+  label: string;
+}
+
+// A line of the replayed monitor: a transcript row, or the device link changing state
+export type ReplayItem =
+  | { type: 'command'; offsetMs: number; entry: SessionCommand }
+  | { type: 'device'; offsetMs: number; event: SessionDeviceEvent };
+
+export interface ReplayTimeline {
+  startTime: Date;
+  durationMs: number;
+  items: ReplayItem[];
+  markers: ReplayMarker[];
+}
+
+const DEVICE_ERROR = /^(\+CME\s+)?ERROR\b/i;
+
+function isErrorEntry(entry: SessionCommand): boolean {
+  return entry.status === 'failed' || (entry.sender === 'device' && DEVICE_ERROR.test(entry.command.trim()));
+}
+
+function isDisconnect(event: SessionDeviceEvent): boolean {
+  return event.device_state === 'disconnected' || event.device_state === 'reconnecting';
+}
+
+function getMarkerKind(entry: SessionCommand): ReplayMarkerKind | null {
+  if (isErrorEntry(entry)) return 'error';
+  if (entry.sender === 'support') return 'support';
+  if (entry.sender === 'user') return 'user';
+  return null;
+}
+
+// Lay the session out on one clock, starting when it was shared. Offsets keep the original gaps
+export function buildReplayTimeline(transcript: SessionTranscript): ReplayTimeline {
+  const start = transcript.session.startTime.getTime();
+  const offsetOf = (timestamp: string) => Math.max(0, new Date(timestamp).getTime() - start);
+
+  const items: ReplayItem[] = [
+    ...transcript.commands.map(entry => ({ type: 'command' as const, offsetMs: offsetOf(entry.timestamp), entry })),
+    // The first event only records the state the session started in
+    ...transcript.deviceEvents.slice(1).map(event => ({ type: 'device' as const, offsetMs: offsetOf(event.created_at), event }))
+  ].sort((a, b) => a.offsetMs - b.offsetMs);
+
+  const markers: ReplayMarker[] = [];
+  items.forEach(item => {
+    if (item.type === 'command') {
+      const kind = getMarkerKind(item.entry);
+      if (kind) markers.push({ kind, offsetMs: item.offsetMs, label: item.entry.command });
+    } else if (isDisconnect(item.event)) {
+      markers.push({ kind: 'disconnect', offsetMs: item.offsetMs, label: `Device ${item.event.device_state}` });
+    }
+  });
+
+  const end = transcript.session.endedAt ? transcript.session.endedAt.getTime() - start : 0;
+  const lastItem = items[items.length - 1]?.offsetMs ?? 0;
+
+  return {
+    startTime: transcript.session.startTime,
+    durationMs: Math.max(end, lastItem),
+    items,
+    markers
+  };
+}
+
+// Items that have happened by the given point of the replay. Items are sorted, so this is a prefix
+export function getItemsUpTo(timeline: ReplayTimeline, positionMs: number): ReplayItem[] {
+  const index = timeline.items.findIndex(item => item.offsetMs > positionMs);
+  return index === -1 ? timeline.items : timeline.items.slice(0, index);
+}
+
+// Formatted as "m:ss", or "h:mm:ss" for long sessions
+export function formatReplayTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`;
+  }
+  return `${minutes}:${seconds}`;
+}
@@ -0,0 +1,252 @@
+import type { SessionTranscript } from "@/services/SessionHistoryService";
+import type { SessionCommand } from "@/services/SessionService";
+import { getControlPolicyLabel } from "@/lib/controlPolicy";
+import { getEndReasonOption } from "@/lib/sessionEnd";
+import { getPriorityOption } from "@/lib/sessionQueue";
+import {
+  DeviceConfig,
+  formatConfigValue,
+  getConfigLabel,
+  getOrderedConfigKeys,
+  isSecretConfigKey,
+  redactSecretConfigLine
+} from "@/lib/deviceConfig";
+
+export type TranscriptExportFormat = 'json' | 'csv' | 'log' | 'html';
+
+export const TRANSCRIPT_EXPORT_FORMATS: { value: TranscriptExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'json', label: "JSON", extension: "json", mimeType: "application/json" },
+  { value: 'csv', label: "CSV", extension: "csv", mimeType: "text/csv" },
+  { value: 'log', label: "Plain text log", extension: "log", mimeType: "text/plain" },
+  { value: 'html', label: "HTML report", extension: "html", mimeType: "text/html" }
+];
+
+// Exports leave the support tool, so secret settings such as passwords are always masked
+const REDACTED = "••••••••";
+
+function redactConfig(config: DeviceConfig): DeviceConfig {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [key, isSecretConfigKey(key) ? REDACTED : value])
+  );
+}
+
+function getLatestSnapshot(transcript: SessionTranscript) {
+  return transcript.snapshots[transcript.snapshots.length - 1] ?? null;
+}
+
+// Session details shared by every format, as label/value pairs
+function getSessionDetails(transcript: SessionTranscript): [string, string][] {
+  const { session } = transcript;
+  return [
+    ["Session", session.name],
+    ["Session ID", session.id],
+    ["User", session.user],
+    ["Device", session.deviceType ? `${session.device} (${session.deviceType})` : session.device],
+    ["Support agent", session.agentName ?? "None"],
+    ["Priority", getPriorityOption(session.priority).label],
+    ["Control policy", getControlPolicyLabel(session.controlPolicy)],
+    ["Started", session.startTime.toISOString()],
+    ["Ended", session.endedAt?.toISOString() ?? "Still open"],
+    ["End reason", session.endReason ? getEndReasonOption(session.endReason).label : "—"]
+  ];
+}
+
+// Status and consent of a support command in a few words, e.g. "executed, approved"
+function describeOutcome(entry: SessionCommand): string {
+  return [entry.status, entry.consent].filter(Boolean).join(", ");
+}
+
+export function toTranscriptJson(transcript: SessionTranscript): string {
+  const { session } = transcript;
+  const snapshot = getLatestSnapshot(transcript);
+
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      name: session.name,
+      user: session.user,
+      device: session.device,
+      deviceType: session.deviceType,
+      agent: session.agentName,
+      priority: session.priority,
+      controlPolicy: session.controlPolicy,
+      startedAt: session.startTime.toISOString(),
+      endedAt: session.endedAt?.toISOString() ?? null,
+      endReason: session.endReason
+    },
+    configSnapshot: snapshot && {
+      capturedAt: snapshot.capturedAt.toISOString(),
+      capturedBy: snapshot.capturedBy,
+      config: redactConfig(snapshot.config)
+    },
+    commands: transcript.commands.map(entry => ({
+      id: entry.id,
+      timestamp: entry.timestamp,
+      sender: entry.sender,
+      command: redactSecretConfigLine(entry.command),
+      inReplyTo: entry.in_reply_to,
+      status: entry.status,
+      statusDetail: entry.status_detail,
+      consent: entry.consent
+    })),
+    messages: transcript.messages.map(message => ({
+      id: message.id,
+      createdAt: message.created_at,
+      sender: message.sender,
+      senderName: message.sender_name,
+      body: message.body
+    }))
+  }, null, 2);
+}
+
+// Quoted, and with a leading quote on anything a spreadsheet would run as a formula
+function toCsvCell(value: string | null | undefined): string {
+  const text = value ?? "";
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function toTranscriptCsv(transcript: SessionTranscript): string {
+  const header = ["id", "timestamp", "sender", "command", "in_reply_to", "status", "status_detail", "consent"];
+  const rows = transcript.commands.map(entry => [
+    entry.id,
+    entry.timestamp,
+    entry.sender,
+    redactSecretConfigLine(entry.command),
+    entry.in_reply_to,
+    entry.status,
+    entry.status_detail,
+    entry.consent
+  ].map(toCsvCell).join(","));
+
+  return [header.join(","), ...rows].join("\r\n");
+}
+
+export function toTranscriptLog(transcript: SessionTranscript): string {
+  const details = getSessionDetails(transcript).map(([label, value]) => `# ${label}: ${value}`);
+  const lines = transcript.commands.map(entry => {
+    const outcome = describeOutcome(entry);
+    const sender = entry.sender.toUpperCase().padEnd(7);
+    return `[${entry.timestamp}] ${sender} ${redactSecretConfigLine(entry.command)}${outcome ? `  (${outcome})` : ""}`;
+  });
+
+  return [...details, "", ...lines, ""].join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A standalone page meant for printing, or saving as PDF from the print dialog
+export function toTranscriptHtml(transcript: SessionTranscript): string {
+  const { session } = transcript;
+  const snapshot = getLatestSnapshot(transcript);
+
+  const details = getSessionDetails(transcript)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("");
+
+  const configRows = snapshot
+    ? getOrderedConfigKeys(snapshot.config).map(key => {
+        const value = isSecretConfigKey(key) ? REDACTED : formatConfigValue(key, snapshot.config[key]);
+        return `<tr><th>${escapeHtml(getConfigLabel(key))}</th><td>${escapeHtml(value)}</td></tr>`;
+      }).join("")
+    : "";
+  const config = snapshot
+    ? `<p class="muted">Read from the device at ${escapeHtml(snapshot.capturedAt.toLocaleString())} by ${escapeHtml(snapshot.capturedBy)}</p><table>${configRows}</table>`
+    : `<p class="muted">The device configuration was not read during this session.</p>`;
+
+  const commandRows = transcript.commands.map(entry => {
+    const time = new Date(entry.timestamp).toLocaleTimeString();
+    return `<tr class="${escapeHtml(entry.sender)}"><td>${escapeHtml(time)}</td><td>${escapeHtml(entry.sender)}</td>`
+      + `<td class="mono">${escapeHtml(redactSecretConfigLine(entry.command))}</td><td>${escapeHtml(describeOutcome(entry))}</td></tr>`;
+  }).join("");
+  const commands = transcript.commands.length > 0
+    ? `<table class="transcript"><tr><th>Time</th><th>Sender</th><th>Line</th><th>Outcome</th></tr>${commandRows}</table>`
+    : `<p class="muted">Nothing was sent or received.</p>`;
+
+  const messageRows = transcript.messages.map(message => {
+    const time = new Date(message.created_at).toLocaleTimeString();
+    return `<tr><td>${escapeHtml(time)}</td><td>${escapeHtml(message.sender_name)}</td><td>${escapeHtml(message.body)}</td></tr>`;
+  }).join("");
+  const messages = transcript.messages.length > 0
+    ? `<table class="transcript"><tr><th>Time</th><th>From</th><th>Message</th></tr>${messageRows}</table>`
+    : `<p class="muted">No chat messages.</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Support session report - ${escapeHtml(session.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; font-size: 13px; }
+  h1 { font-size: 20px; margin-bottom: 0.25rem; }
+  h2 { font-size: 15px; margin-top: 1.5rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 3px 8px; border-bottom: 1px solid #f1f5f9; }
+  th { color: #475569; font-weight: 600; width: 160px; }
+  .transcript th { width: auto; }
+  .mono { font-family: ui-monospace, monospace; white-space: pre-wrap; word-break: break-all; }
+  .support td { color: #1d4ed8; }
+  .device td { color: #15803d; }
+  .muted { color: #64748b; }
+</style>
+</head>
+<body>
+<h1>Support session report</h1>
+<p class="muted">Exported ${escapeHtml(new Date().toLocaleString())}</p>
+<h2>Session</h2>
+<table>${details}</table>
+<h2>Device configuration</h2>
+${config}
+<h2>Transcript</h2>
+${commands}
+<h2>Chat</h2>
+${messages}
+</body>
+</html>
+`;
+}
+
+export function exportTranscript(transcript: SessionTranscript, format: TranscriptExportFormat): string {
+  switch (format) {
+    case 'json': return toTranscriptJson(transcript);
+    case 'csv': return toTranscriptCsv(transcript);
+    case 'log': return toTranscriptLog(transcript);
+    case 'html': return toTranscriptHtml(transcript);
+  }
+}
+
+// e.g. "session-my-device-2026-10-19.csv"
+export function getExportFileName(transcript: SessionTranscript, format: TranscriptExportFormat): string {
+  const slug = transcript.session.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "session";
+  const date = transcript.session.startTime.toISOString().slice(0, 10);
+  const extension = TRANSCRIPT_EXPORT_FORMATS.find(option => option.value === format)?.extension ?? format;
+  return `session-${slug}-${date}.${extension}`;
+}
+
+export function downloadTranscript(transcript: SessionTranscript, format: TranscriptExportFormat): void {
+  const mimeType = TRANSCRIPT_EXPORT_FORMATS.find(option => option.value === format)?.mimeType ?? "text/plain";
+  const url = URL.createObjectURL(new Blob([exportTranscript(transcript, format)], { type: `${mimeType};charset=utf-8` }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getExportFileName(transcript, format);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Shows the HTML report in a window opened beforehand and brings up the print dialog, where it can be
+// saved as PDF. The window has to be opened straight from the click, or popup blockers stop it
+export function printTranscriptReport(reportWindow: Window, transcript: SessionTranscript): void {
+  reportWindow.document.open();
+  reportWindow.document.write(toTranscriptHtml(transcript));
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+}
@@ -1,43 +1,44 @@
 
-import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { UserDeviceView } from "@/components/UserDeviceView";
 import { SupportView } from "@/components/SupportView";
+import { SessionHistoryView } from "@/components/SessionHistoryView";
 import { Bluetooth } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import authService, { canAccess } from "@/services/AuthService";
+import { toast } from "@/hooks/use-toast";
 
-const Index = () => {
-  const [currentTab, setCurrentTab] = useState<string>("user");
-  const [accessMode, setAccessMode] = useState<string | null>(null);
-  const navigate = useNavigate();
+type IndexProps = {
+  // Each tab has its own route so App.tsx can guard it by role
+  tab: 'user' | 'support' | 'history';
+};
 
-  useEffect(() => {
-    // Get the access mode from session storage only once on component mount
-    const mode = sessionStorage.getItem('accessMode');
-    setAccessMode(mode);
-    
-    // If mode is 'device', ensure we start on the user tab
-    if (mode === 'device') {
-      setCurrentTab('user');
-    }
-  }, []); // Empty dependency array ensures this only runs once on mount
+const Index = ({ tab }: IndexProps) => {
+  const { profile, accessMode } = useAuth();
+  const navigate = useNavigate();
+  const showDeviceTab = canAccess(accessMode, 'device');
+  const showSupportTab = canAccess(accessMode, 'support');
 
   // Handler for tab changes
   const handleTabChange = (value: string) => {
-    // If trying to access support tab when in device-only mode, block it
-    if (value === 'support' && accessMode === 'device') {
-      return;
-    }
-    
-    setCurrentTab(value);
+    navigate(value === 'user' ? '/' : `/${value}`);
     console.log(`Switched to ${value} tab`);
   };
 
   // Handler for logout
-  const handleLogout = () => {
-    sessionStorage.removeItem('accessMode');
-    navigate('/login');
+  const handleLogout = async () => {
+    try {
+      await authService.signOut();
+      navigate('/login');
+    } catch (error) {
+      toast({
+        title: "Logout Failed",
+        description: "Could not sign out. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -49,40 +50,60 @@ const Index = () => {
             <Bluetooth className="h-6 w-6" />
             <h1 className="text-xl font-bold">Remote BT Assist</h1>
           </div>
-          <Button 
-            variant="outline" 
-            onClick={handleLogout}
-            className="text-primary hover:text-primary"
-          >
-            Logout
-          </Button>
+          <div className="flex items-center gap-3">
+            {profile && (
+              <span className="text-sm opacity-90 hidden sm:inline">
+                {profile.displayName || profile.email}
+                {profile.role === 'support_agent' && " (Support)"}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleLogout}
+              className="text-primary hover:text-primary"
+            >
+              Logout
+            </Button>
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 container mx-auto p-4 md:p-6">
-        <Tabs 
-          defaultValue={currentTab}
-          value={currentTab} 
-          onValueChange={handleTabChange} 
+        <Tabs
+          value={tab}
+          onValueChange={handleTabChange}
           className="w-full"
         >
-          <TabsList className={`grid w-full ${accessMode === 'both' ? 'grid-cols-2' : 'grid-cols-1'} mb-8`}>
-            <TabsTrigger value="user">Device (User)</TabsTrigger>
-            {accessMode === 'both' && (
+          <TabsList className={`grid w-full ${showDeviceTab && showSupportTab ? 'grid-cols-3' : showSupportTab ? 'grid-cols-2' : 'grid-cols-1'} mb-8`}>
+            {showDeviceTab && (
+              <TabsTrigger value="user">Device (User)</TabsTrigger>
+            )}
+            {showSupportTab && (
               <TabsTrigger value="support">Support (Helper)</TabsTrigger>
             )}
+            {showSupportTab && (
+              <TabsTrigger value="history">History</TabsTrigger>
+            )}
           </TabsList>
-          
-          <TabsContent value="user" className="space-y-4">
-            <UserDeviceView />
-          </TabsContent>
-          
-          {accessMode === 'both' && (
+
+          {showDeviceTab && (
+            <TabsContent value="user" className="space-y-4">
+              <UserDeviceView />
+            </TabsContent>
+          )}
+
+          {showSupportTab && (
             <TabsContent value="support" className="space-y-4">
               <SupportView />
             </TabsContent>
           )}
+
+          {showSupportTab && (
+            <TabsContent value="history" className="space-y-4">
+              <SessionHistoryView />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
 
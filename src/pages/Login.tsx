@@ -1,20 +1,19 @@
 
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { Bluetooth } from "lucide-react";
-import { PinAuth } from "@/components/PinAuth";
+import { EmailAuth } from "@/components/EmailAuth";
+import { useAuth } from "@/hooks/use-auth";
 
 const Login = () => {
-  const navigate = useNavigate();
-  
-  const handleAuthSuccess = (mode: 'device' | 'support' | 'both') => {
-    // Store the access mode in session storage
-    sessionStorage.setItem('accessMode', mode);
-    
-    // Navigate to the main page
-    navigate('/');
-  };
-  
+  const { status } = useAuth();
+  const location = useLocation();
+
+  // Once signed in, go back to wherever the route guard sent us from
+  if (status === 'signed-in') {
+    const from = (location.state as { from?: string } | null)?.from ?? '/';
+    return <Navigate to={from} replace />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
       {/* Header */}
@@ -29,7 +28,7 @@ const Login = () => {
       <main className="flex-1 container mx-auto p-4 md:p-6 flex items-center justify-center">
         <div className="w-full max-w-md bg-white rounded-lg shadow-md overflow-hidden">
           <div className="p-6">
-            <PinAuth onSuccess={handleAuthSuccess} />
+            <EmailAuth />
           </div>
         </div>
       </main>
@@ -0,0 +1,161 @@
+// This service wraps Supabase Auth and the user's profile
+// The profile role decides which views the user may open - nothing is trusted from browser storage
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Session as AuthSession, User } from "@supabase/supabase-js";
+
+export type UserRole = 'device_user' | 'support_agent';
+
+// Views the user can open: device only, support only, or both tabs
+export type AccessMode = 'device' | 'support' | 'both';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  displayName: string | null;
+  role: UserRole;
+}
+
+export interface AuthState {
+  status: 'loading' | 'signed-out' | 'signed-in';
+  user: User | null;
+  profile: UserProfile | null;
+  accessMode: AccessMode | null;
+}
+
+// Support agents also get the device view so they can reproduce issues on their own hardware
+export function getAccessModeForRole(role: UserRole): AccessMode {
+  return role === 'support_agent' ? 'both' : 'device';
+}
+
+export function canAccess(accessMode: AccessMode | null, view: 'device' | 'support'): boolean {
+  return accessMode === 'both' || accessMode === view;
+}
+
+class AuthService {
+  private state: AuthState = { status: 'loading', user: null, profile: null, accessMode: null };
+  private listeners: ((state: AuthState) => void)[] = [];
+
+  constructor() {
+    supabase.auth.getSession().then(({ data }) => this.handleSession(data.session));
+
+    supabase.auth.onAuthStateChange((_event, session) => {
+      // Supabase holds a lock while this callback runs, so query the profile outside of it
+      setTimeout(() => this.handleSession(session), 0);
+    });
+  }
+
+  private async handleSession(session: AuthSession | null): Promise<void> {
+    if (!session) {
+      this.setState({ status: 'signed-out', user: null, profile: null, accessMode: null });
+      return;
+    }
+
+    // Skip the profile lookup on token refreshes for the same user
+    if (this.state.status === 'signed-in' && this.state.user?.id === session.user.id) {
+      return;
+    }
+
+    const profile = await this.fetchProfile(session.user);
+    this.setState({
+      status: 'signed-in',
+      user: session.user,
+      profile,
+      accessMode: getAccessModeForRole(profile.role)
+    });
+  }
+
+  private async fetchProfile(user: User): Promise<UserProfile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      // The profile is created by a trigger on sign-up. Without one, fall back to the least privileged role
+      console.error('[AuthService] Could not load profile, defaulting to device_user:', error);
+      return { id: user.id, email: user.email ?? '', displayName: null, role: 'device_user' };
+    }
+
+    return {
+      id: data.id,
+      email: data.email,
+      displayName: data.display_name,
+      role: data.role === 'support_agent' ? 'support_agent' : 'device_user'
+    };
+  }
+
+  async signInWithPassword(email: string, password: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      console.error('[AuthService] Password sign-in failed:', error);
+      throw error;
+    }
+  }
+
+  async signInWithMagicLink(email: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin }
+    });
+    if (error) {
+      console.error('[AuthService] Magic link request failed:', error);
+      throw error;
+    }
+  }
+
+  // Returns true when the account still has to be confirmed by email
+  async signUp(email: string, password: string, displayName: string): Promise<boolean> {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { display_name: displayName },
+        emailRedirectTo: window.location.origin
+      }
+    });
+    if (error) {
+      console.error('[AuthService] Sign-up failed:', error);
+      throw error;
+    }
+    return !data.session;
+  }
+
+  async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('[AuthService] Sign-out failed:', error);
+      throw error;
+    }
+  }
+
+  getState(): AuthState {
+    return this.state;
+  }
+
+  addAuthListener(callback: (state: AuthState) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removeAuthListener(callback: (state: AuthState) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  private setState(state: AuthState): void {
+    this.state = state;
+    console.log(`[AuthService] ${state.status}${state.profile ? ` as ${state.profile.role}` : ''}`);
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("[AuthService] Error in listener callback:", error);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+const authService = new AuthService();
+export default authService;
@@ -1,142 +1,38 @@
-import sessionService from './SessionService';
-import { supabase } from "@/integrations/supabase/client";
+import { TransportProfile, getTransportProfiles, getOptionalServiceUuids } from './TransportProfiles';
+import { DeviceError, DeviceInfo, DeviceTransportBase, parseDeviceError } from './DeviceTransport';
 
+// A device found by a Bluetooth scan
 export interface BluetoothDevice {
   id: string;
   name: string;
   device?: any; // Store the actual Web Bluetooth device
+  transportProfile?: TransportProfile; // Profile that matched when the device was connected
 }
 
-export interface SerialConfig {
-  baudRate: number;
-  dataBits: number;
-  stopBits: number;
-  parity: "none" | "even" | "odd";
-  flowControl: "none" | "hardware";
-}
-
-export interface ShareSession {
-  id: string;
-  name: string;
-}
+// Default ATT payload is 23 bytes minus 3 bytes of header; Web Bluetooth doesn't expose the negotiated MTU
+const DEFAULT_CHUNK_SIZE = 20;
+const CHUNK_WRITE_DELAY_MS = 10;
 
-// Error types to provide more specific information about Bluetooth errors
-export type BluetoothErrorType =
-  | 'not-supported'
-  | 'user-cancelled'
-  | 'security-error'
-  | 'connection-failed'
-  | 'device-disconnected'
-  | 'permission-denied'
-  | 'service-not-found'
-  | 'characteristic-not-found'
-  | 'write-failed'
-  | 'notification-failed'
-  | 'unknown';
-
-export interface BluetoothError {
-  type: BluetoothErrorType;
-  message: string;
-  originalError?: Error;
-  permissionState?: 'granted' | 'denied' | 'prompt' | 'unknown';
-}
+// Reconnect backoff settings
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_MAX_ATTEMPTS = 8;
 
-class BluetoothService {
+// BLE serial modules over Web Bluetooth. Finds the module's UART service, moves bytes over GATT
+// and reconnects on its own when the link drops
+class BluetoothService extends DeviceTransportBase {
+  readonly kind = 'ble' as const;
   private connectedDevice: BluetoothDevice | null = null;
-  private dataListeners: ((data: string) => void)[] = [];
-  private sharedSession: ShareSession | null = null;
-  private serialConfig: SerialConfig = {
-    baudRate: 9600,
-    dataBits: 8,
-    stopBits: 1,
-    parity: "none",
-    flowControl: "none"
-  };
-  private characteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private characteristic: BluetoothRemoteGATTCharacteristic | null = null; // Write characteristic
+  private notifyCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private activeProfile: TransportProfile | null = null;
   private scannedDevices: BluetoothDevice[] = []; // Store devices from scan to use during connect
   private isConnectionActive = false; // Track active connection state
+  private reconnectAttempt = 0;
+  private reconnectTimeoutId: number | null = null;
 
   // No predefined devices - we'll filter real devices instead
 
-  // Helper to categorize Bluetooth errors
-  private parseBluetoothError(error: any): BluetoothError {
-    console.error("Bluetooth error:", error);
-
-    // Default unknown error
-    let errorInfo: BluetoothError = {
-      type: 'unknown',
-      message: 'An unknown error occurred',
-      originalError: error instanceof Error ? error : undefined
-    };
-
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    // Check for specific error types
-    if (errorMessage.includes('User cancelled')) {
-      errorInfo = {
-        type: 'user-cancelled',
-        message: 'Operation was cancelled by the user',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('Bluetooth adapter is not available')) {
-      errorInfo = {
-        type: 'not-supported',
-        message: 'Bluetooth is not available on this device or browser',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('GATT Server is disconnected')) {
-      errorInfo = {
-        type: 'device-disconnected',
-        message: 'The Bluetooth device was disconnected',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('NotFoundError') || errorMessage.includes('no such service')) {
-      errorInfo = {
-        type: 'service-not-found',
-        message: 'Required Bluetooth service not found on this device',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('SecurityError') || errorMessage.includes('secure context')) {
-      errorInfo = {
-        type: 'security-error',
-        message: 'Bluetooth access requires a secure context (HTTPS)',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('Permission denied') || errorMessage.includes('NotAllowedError')) {
-      errorInfo = {
-        type: 'permission-denied',
-        message: 'Permission to access Bluetooth was denied',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('Failed to connect')) {
-      errorInfo = {
-        type: 'connection-failed',
-        message: 'Failed to connect to the Bluetooth device',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('getDevices is not a function')) {
-      errorInfo = {
-        type: 'not-supported',
-        message: 'This browser does not fully support the Web Bluetooth API',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('No device connected')) {
-      errorInfo = {
-        type: 'device-disconnected',
-        message: 'No Bluetooth device is connected',
-        originalError: error instanceof Error ? error : undefined
-      };
-    } else if (errorMessage.includes('characteristic not available')) {
-      errorInfo = {
-        type: 'characteristic-not-found',
-        message: 'Required Bluetooth characteristic not available',
-        originalError: error instanceof Error ? error : undefined
-      };
-    }
-
-    return errorInfo;
-  }
-
   // Request Bluetooth permissions explicitly
   async requestBluetoothPermission(): Promise<boolean> {
     // Log Bluetooth availability but don't block the request
@@ -185,13 +81,7 @@ class BluetoothService {
           // Accept any Bluetooth device to make it easier
           acceptAllDevices: true,
           // Include all possible services we might need
-          optionalServices: [
-            'generic_access',
-            '0000ffe0-0000-1000-8000-00805f9b34fb',
-            '0000ffe1-0000-1000-8000-00805f9b34fb',
-            '0000180a-0000-1000-8000-00805f9b34fb', // Device Information Service
-            '0000180f-0000-1000-8000-00805f9b34fb'  // Battery Service
-          ]
+          optionalServices: getOptionalServiceUuids()
         });
 
         console.log("Bluetooth permission granted for device:", device);
@@ -236,11 +126,11 @@ class BluetoothService {
   }
 
   // Check if Bluetooth is enabled on the device
-  async checkBluetoothStatus(): Promise<{ enabled: boolean; error?: BluetoothError }> {
+  async checkBluetoothStatus(): Promise<{ enabled: boolean; error?: DeviceError }> {
     if (!this.isWebBluetoothAvailable()) {
       return {
         enabled: false,
-        error: this.parseBluetoothError(new Error("Web Bluetooth API is not available"))
+        error: parseDeviceError(new Error("Web Bluetooth API is not available"))
       };
     }
 
@@ -255,7 +145,7 @@ class BluetoothService {
       console.error("Error checking Bluetooth status:", error);
       return {
         enabled: false,
-        error: this.parseBluetoothError(error)
+        error: parseDeviceError(error)
       };
     }
   }
@@ -370,7 +260,7 @@ class BluetoothService {
   async scanForDevices(): Promise<BluetoothDevice[]> {
     if (!this.isWebBluetoothAvailable()) {
       console.error("Web Bluetooth API is not available in this browser/environment");
-      throw this.parseBluetoothError(new Error("Web Bluetooth API is not available in this browser/environment"));
+      throw parseDeviceError(new Error("Web Bluetooth API is not available in this browser/environment"));
     }
 
     try {
@@ -380,13 +270,7 @@ class BluetoothService {
       const device = await navigator.bluetooth.requestDevice({
         // Accept all devices to ensure we can filter for '86' prefix
         acceptAllDevices: true,
-        optionalServices: [
-          'generic_access',
-          '0000ffe0-0000-1000-8000-00805f9b34fb',
-          '0000ffe1-0000-1000-8000-00805f9b34fb',
-          '0000180a-0000-1000-8000-00805f9b34fb', // Device Information Service
-          '0000180f-0000-1000-8000-00805f9b34fb'  // Battery Service
-        ]
+        optionalServices: getOptionalServiceUuids()
       });
 
       if (device) {
@@ -413,7 +297,7 @@ class BluetoothService {
       return [];
     } catch (error) {
       console.error("Error scanning for Bluetooth devices:", error);
-      throw this.parseBluetoothError(error);
+      throw parseDeviceError(error);
     }
   }
 
@@ -421,25 +305,21 @@ class BluetoothService {
   async scanForDevicesWithDialog(): Promise<BluetoothDevice[]> {
     if (!this.isWebBluetoothAvailable()) {
       console.error("Web Bluetooth API is not available in this browser/environment");
-      throw this.parseBluetoothError(new Error("Web Bluetooth API is not available in this browser/environment"));
+      throw parseDeviceError(new Error("Web Bluetooth API is not available in this browser/environment"));
     }
 
     try {
       console.log("Requesting Bluetooth device...");
       const device = await navigator.bluetooth.requestDevice({
-        // Accept all devices that have a Serial Port Profile service
+        // Accept all devices that advertise one of the known serial profiles
         filters: [
-          { services: ['0000ffe0-0000-1000-8000-00805f9b34fb'] }, // HC-05/HC-06 service UUID
+          ...getTransportProfiles().map(profile => ({ services: [profile.serviceUuid] })),
           { services: ['0000180a-0000-1000-8000-00805f9b34fb'] }, // Device Information Service
           { services: ['0000180f-0000-1000-8000-00805f9b34fb'] }, // Battery Service
           { namePrefix: 'HC-' }, // Common prefix for HC-05, HC-06
           { namePrefix: 'BT' }, // Common prefix for Bluetooth modules
         ],
-        optionalServices: [
-          'generic_access',
-          '0000ffe0-0000-1000-8000-00805f9b34fb',
-          '0000ffe1-0000-1000-8000-00805f9b34fb'
-        ]
+        optionalServices: getOptionalServiceUuids()
       });
 
       if (device) {
@@ -457,14 +337,14 @@ class BluetoothService {
       return [];
     } catch (error) {
       console.error("Error scanning for Bluetooth devices:", error);
-      throw this.parseBluetoothError(error);
+      throw parseDeviceError(error);
     }
   }
 
-  // Connect to a selected Bluetooth device
-  async connectToDevice(deviceId: string): Promise<void> {
+  // Connect to a device found by the last scan
+  async connect(deviceId?: string): Promise<void> {
     if (!this.isWebBluetoothAvailable()) {
-      throw this.parseBluetoothError(new Error("Web Bluetooth API is not available in this browser/environment"));
+      throw parseDeviceError(new Error("Web Bluetooth API is not available in this browser/environment"));
     }
 
     try {
@@ -476,6 +356,8 @@ class BluetoothService {
       }
 
       console.log(`Connecting to device: ${deviceId}`);
+      this.cancelReconnect();
+      this.setConnectionState('connecting');
 
       // Connect to the GATT server
       const server = await matchingDevice.device.gatt?.connect();
@@ -486,160 +368,212 @@ class BluetoothService {
       // Set connection as active
       this.isConnectionActive = true;
 
-      // Discover serial service (common UUID for BLE Serial services)
-      // We'll try with the common HC-05/HC-06 service UUID first
-      let service;
-      try {
-        service = await server.getPrimaryService('0000ffe0-0000-1000-8000-00805f9b34fb');
-      } catch (error) {
-        console.warn("Could not find HC-05/HC-06 service, trying generic access:", error);
-        try {
-          // Try to find the generic access service as fallback
-          service = await server.getPrimaryService('generic_access');
-        } catch (fallbackError) {
-          console.error("Could not find any compatible service:", fallbackError);
-          throw new Error("No compatible Bluetooth service found on this device");
-        }
-      }
+      // Probe each registered transport profile until one exposes its serial service
+      const { profile, writeCharacteristic, notifyCharacteristic } = await this.discoverTransportProfile(server);
 
-      // Get the characteristic for serial communication
-      let characteristic;
-      try {
-        characteristic = await service.getCharacteristic('0000ffe1-0000-1000-8000-00805f9b34fb');
-      } catch (error) {
-        console.error("Could not find characteristic:", error);
-        throw new Error("Bluetooth characteristic not found");
-      }
-
-      // Store the characteristic for later use
-      this.characteristic = characteristic;
+      // Store the characteristics for later use
+      this.characteristic = writeCharacteristic;
+      this.notifyCharacteristic = notifyCharacteristic;
+      this.activeProfile = profile;
 
       // Set up notifications for incoming data
-      try {
-        await characteristic.startNotifications();
-        characteristic.addEventListener('characteristicvaluechanged', (event) => {
-          // Fix for TypeScript error: Cast event.target to unknown first, then to BluetoothRemoteGATTCharacteristic
-          const target = event.target as unknown as BluetoothRemoteGATTCharacteristic;
-          if (target.value) {
-            const decoder = new TextDecoder('utf-8');
-            const rawData = decoder.decode(target.value);
-            
-            // Format the data: replace spaces with newlines
-            const formattedData = this.formatBluetoothData(rawData);
-            
-            this.notifyDataListeners(formattedData);
-
-            // If we have an active shared session, send to the support view via database
-            if (this.sharedSession) {
-              this.saveReceivedDataToDb(formattedData);
-            }
-          }
-        });
-      } catch (error) {
-        console.error("Failed to set up notifications:", error);
-        throw new Error("Failed to set up device notifications");
-      }
+      await this.enableNotifications(notifyCharacteristic);
 
-      // Store the connected device
+      // Store the connected device along with the profile that matched
+      matchingDevice.transportProfile = profile;
       this.connectedDevice = matchingDevice;
 
-      console.log(`Successfully connected to ${this.connectedDevice.name}`);
+      // Watch for unexpected drops so we can reconnect automatically
+      matchingDevice.device.removeEventListener('gattserverdisconnected', this.handleGattDisconnected);
+      matchingDevice.device.addEventListener('gattserverdisconnected', this.handleGattDisconnected);
+
+      this.setConnectionState('connected');
+      console.log(`Successfully connected to ${this.connectedDevice.name} using ${profile.name}`);
     } catch (error) {
       this.isConnectionActive = false;
       this.characteristic = null;
+      this.notifyCharacteristic = null;
+      this.activeProfile = null;
+      this.setConnectionState('disconnected');
       console.error("Error connecting to Bluetooth device:", error);
-      throw this.parseBluetoothError(error);
+      throw parseDeviceError(error);
     }
   }
 
-  // Enhanced method to format bluetooth data with better line detection
-  private formatBluetoothData(data: string): string {
-    // Start with clean data
-    let formattedData = data;
-    
-    // Make sure AT+ commands start on a new line
-    formattedData = formattedData.replace(/AT\+/g, '\nAT+');
-    
-    // Handle special OK response on its own line
-    formattedData = formattedData.replace(/OK/g, '\n\nOK');
-    
-    // Break at each AT command parameter
-    formattedData = formattedData.replace(/(\s)AT\+/g, '\nAT+');
-    
-    // Break lines on these common delimiters
-    const delimiters = ["=", " "];
-    delimiters.forEach(delimiter => {
-      // Replace each delimiter with the delimiter followed by a newline
-      const regex = new RegExp(`${delimiter}`, 'g');
-      formattedData = formattedData.replace(regex, `${delimiter}\n`);
-    });
-    
-    // Fix line breaks for error messages
-    formattedData = formattedData.replace(/ERROR/g, '\nERROR\n');
-    
-    // Remove any empty lines at the beginning
-    formattedData = formattedData.replace(/^\n+/, '');
-    
-    // Clean up multiple consecutive newlines
-    formattedData = formattedData.replace(/\n{3,}/g, '\n\n');
-    
-    // Fix any lines with just a single character (usually remnants)
-    formattedData = formattedData.replace(/\n(.)\n/g, '\n$1');
-    
-    return formattedData;
+  private async enableNotifications(characteristic: BluetoothRemoteGATTCharacteristic): Promise<void> {
+    try {
+      await characteristic.startNotifications();
+      characteristic.removeEventListener('characteristicvaluechanged', this.handleCharacteristicValueChanged);
+      characteristic.addEventListener('characteristicvaluechanged', this.handleCharacteristicValueChanged);
+    } catch (error) {
+      console.error("Failed to set up notifications:", error);
+      throw new Error("Failed to set up device notifications");
+    }
   }
 
-  // Save device data to the database for support view
-  private async saveReceivedDataToDb(data: string): Promise<void> {
-    if (!this.sharedSession) return;
+  private handleCharacteristicValueChanged = (event: Event): void => {
+    // Fix for TypeScript error: Cast event.target to unknown first, then to BluetoothRemoteGATTCharacteristic
+    const target = event.target as unknown as BluetoothRemoteGATTCharacteristic;
+    if (target.value) {
+      // Copy the bytes - the DataView is reused by the browser for the next notification
+      const bytes = new Uint8Array(target.value.buffer.slice(
+        target.value.byteOffset,
+        target.value.byteOffset + target.value.byteLength
+      ));
+
+      this.notifyDataListeners(bytes);
+    }
+  };
 
-    try {
-      const { error } = await supabase
-        .from('session_commands')
-        .insert([
-          {
-            session_id: this.sharedSession.id,
-            command: data,
-            sender: 'device' // Indicate this came from the device
-          }
-        ]);
+  // Fired by the browser when the GATT link drops without us asking for it
+  private handleGattDisconnected = (): void => {
+    if (this.connectionState === 'disconnected' || this.connectionState === 'reconnecting') {
+      return;
+    }
 
-      if (error) {
-        console.error("Error saving device data to database:", error);
-      }
-    } catch (err) {
-      console.error("Error in saveReceivedDataToDb:", err);
+    console.warn("GATT server disconnected unexpectedly, starting reconnect");
+    this.isConnectionActive = false;
+    this.setConnectionState('reconnecting');
+    this.reconnectAttempt = 0;
+    this.scheduleReconnect();
+  };
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      console.error(`Giving up on reconnect after ${this.reconnectAttempt} attempts`);
+      this.isConnectionActive = false;
+      this.characteristic = null;
+      this.notifyCharacteristic = null;
+      this.setConnectionState('disconnected');
+      return;
     }
+
+    // Exponential backoff: 1s, 2s, 4s ... capped at RECONNECT_MAX_DELAY_MS
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempt++;
+    console.log(`Reconnect attempt ${this.reconnectAttempt}/${RECONNECT_MAX_ATTEMPTS} in ${delay}ms`);
+
+    this.reconnectTimeoutId = window.setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.attemptReconnect();
+    }, delay);
   }
 
-  // Check connection state more reliably
-  async verifyConnection(): Promise<boolean> {
-    if (!this.isConnectionActive || !this.connectedDevice?.device?.gatt) {
-      return false;
+  private async attemptReconnect(): Promise<void> {
+    const gatt = this.connectedDevice?.device?.gatt;
+    const profile = this.activeProfile;
+
+    if (!gatt || !profile || this.connectionState !== 'reconnecting') {
+      return;
     }
 
     try {
-      // Test if the device is still connected
-      const connected = this.connectedDevice.device.gatt.connected;
-      if (!connected) {
-        this.isConnectionActive = false;
-        this.characteristic = null;
-        return false;
+      const server = await gatt.connect();
+
+      // The user may have disconnected manually while we were waiting on the GATT server.
+      // Nobody owns this connection any more, so close it again
+      if (this.connectionState !== 'reconnecting') {
+        server.disconnect();
+        return;
       }
 
-      // Verify characteristic is still valid
-      if (!this.characteristic) {
-        console.warn("Characteristic is null but device is connected");
-        this.isConnectionActive = false;
-        return false;
+      const service = await server.getPrimaryService(profile.serviceUuid);
+      const writeCharacteristic = await service.getCharacteristic(profile.writeCharacteristicUuid);
+      const notifyCharacteristic = profile.notifyCharacteristicUuid === profile.writeCharacteristicUuid
+        ? writeCharacteristic
+        : await service.getCharacteristic(profile.notifyCharacteristicUuid);
+
+      // Or while the characteristics were being looked up
+      if (this.connectionState !== 'reconnecting') {
+        server.disconnect();
+        return;
       }
 
-      return true;
+      this.characteristic = writeCharacteristic;
+      this.notifyCharacteristic = notifyCharacteristic;
+
+      // Re-arm notifications on the same characteristic
+      await this.enableNotifications(notifyCharacteristic);
+
+      this.isConnectionActive = true;
+      this.setConnectionState('connected');
+      console.log(`Reconnected to ${this.connectedDevice?.name} after ${this.reconnectAttempt} attempt(s)`);
     } catch (error) {
-      console.error("Error verifying connection:", error);
-      this.isConnectionActive = false;
-      this.characteristic = null;
-      return false;
+      if (this.connectionState !== 'reconnecting') {
+        gatt.disconnect();
+        return;
+      }
+      console.warn(`Reconnect attempt ${this.reconnectAttempt} failed:`, error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimeoutId !== null) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  // Try each transport profile in order and return the first one whose service and characteristics exist
+  private async discoverTransportProfile(server: BluetoothRemoteGATTServer): Promise<{
+    profile: TransportProfile;
+    writeCharacteristic: BluetoothRemoteGATTCharacteristic;
+    notifyCharacteristic: BluetoothRemoteGATTCharacteristic;
+  }> {
+    for (const profile of getTransportProfiles()) {
+      let service: BluetoothRemoteGATTService;
+      try {
+        service = await server.getPrimaryService(profile.serviceUuid);
+      } catch (error) {
+        console.log(`Service for ${profile.name} not found, trying next profile`);
+        continue;
+      }
+
+      try {
+        const writeCharacteristic = await service.getCharacteristic(profile.writeCharacteristicUuid);
+        const notifyCharacteristic = profile.notifyCharacteristicUuid === profile.writeCharacteristicUuid
+          ? writeCharacteristic
+          : await service.getCharacteristic(profile.notifyCharacteristicUuid);
+
+        console.log(`Matched transport profile: ${profile.name}`);
+        return { profile, writeCharacteristic, notifyCharacteristic };
+      } catch (error) {
+        console.warn(`Service for ${profile.name} found but its characteristics are missing:`, error);
+      }
+    }
+
+    throw new Error("No compatible Bluetooth service found on this device (no such service)");
+  }
+
+
+  // Split the payload into MTU-sized chunks and write them in order.
+  // DeviceLinkService queues writes, so GATT operations never overlap
+  async write(data: Uint8Array): Promise<void> {
+    const characteristic = this.characteristic;
+    if (!characteristic) {
+      throw new Error("Bluetooth characteristic not available");
+    }
+
+    const chunkSize = this.activeProfile?.maxChunkSize ?? DEFAULT_CHUNK_SIZE;
+    const withoutResponse = characteristic.properties.writeWithoutResponse &&
+      (this.activeProfile?.writeMode !== 'with-response' || !characteristic.properties.write);
+
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      const chunk = data.slice(offset, offset + chunkSize);
+
+      if (withoutResponse) {
+        await characteristic.writeValueWithoutResponse(chunk);
+        // Without a response there is no backpressure, so give the module time to drain its buffer
+        if (offset + chunkSize < data.length) {
+          await new Promise(resolve => setTimeout(resolve, CHUNK_WRITE_DELAY_MS));
+        }
+      } else if (characteristic.properties.write) {
+        await characteristic.writeValueWithResponse(chunk);
+      } else {
+        await characteristic.writeValue(chunk);
+      }
     }
   }
 
@@ -647,12 +581,16 @@ class BluetoothService {
   disconnect(): void {
     console.log("Attempting to disconnect from device");
 
-    // First, clean up the characteristic
-    if (this.characteristic) {
+    // Stop any pending reconnect and make sure our own disconnect isn't treated as a drop
+    this.cancelReconnect();
+    this.connectedDevice?.device?.removeEventListener('gattserverdisconnected', this.handleGattDisconnected);
+
+    // First, clean up the characteristics
+    if (this.notifyCharacteristic) {
       try {
         // Only attempt to stop notifications if the device is still connected
         if (this.connectedDevice?.device?.gatt?.connected) {
-          this.characteristic.stopNotifications()
+          this.notifyCharacteristic.stopNotifications()
             .catch(err => {
               // Log but don't throw - we're cleaning up anyway
               console.warn("Error stopping notifications during disconnect:", err);
@@ -661,8 +599,10 @@ class BluetoothService {
       } catch (error) {
         console.warn("Error during stopNotifications:", error);
       }
-      this.characteristic = null;
+      this.notifyCharacteristic = null;
     }
+    this.characteristic = null;
+    this.activeProfile = null;
 
     // Then disconnect from the device if still connected
     if (this.connectedDevice?.device?.gatt?.connected) {
@@ -676,6 +616,7 @@ class BluetoothService {
     // Always reset the connection state
     this.isConnectionActive = false;
     this.connectedDevice = null;
+    this.setConnectionState('disconnected');
     console.log("Disconnected from device");
   }
 
@@ -685,159 +626,23 @@ class BluetoothService {
       !!this.characteristic;
   }
 
-  getConnectedDevice(): BluetoothDevice | null {
-    return this.connectedDevice;
-  }
-
-  // Send command to the connected device
-  async sendCommand(command: string): Promise<void> {
-    // Verify connection is still active before sending
-    const isConnected = await this.verifyConnection();
+  getDevice(): DeviceInfo | null {
+    if (!this.connectedDevice) return null;
 
-    if (!isConnected || !this.characteristic) {
-      throw this.parseBluetoothError(new Error("No device connected or characteristic not available"));
-    }
-
-    try {
-      const encoder = new TextEncoder();
-      const data = encoder.encode(command + '\r\n'); // Add carriage return and line feed for AT commands
-      await this.characteristic.writeValue(data);
-      console.log(`Command sent: ${command}`);
-
-      // If we have an active shared session, log this command to the database
-      if (this.sharedSession) {
-        await this.saveCommandToDb(command, 'user');
-      }
-    } catch (error) {
-      console.error("Error sending command:", error);
-      // Reset connection state on error
-      if (error instanceof Error && error.message.includes('GATT Server is disconnected')) {
-        this.isConnectionActive = false;
-        this.characteristic = null;
-      }
-      throw this.parseBluetoothError(error);
-    }
-  }
-
-  private async saveCommandToDb(command: string, sender: 'user' | 'support'): Promise<void> {
-    if (!this.sharedSession) return;
-
-    try {
-      console.log(`Saving command to DB: ${command} from ${sender}`);
-      const { error } = await supabase
-        .from('session_commands')
-        .insert([
-          {
-            session_id: this.sharedSession.id,
-            command: command,
-            sender: sender
-          }
-        ]);
-
-      if (error) {
-        console.error("Error saving command to database:", error);
-      }
-    } catch (err) {
-      console.error("Error in saveCommandToDb:", err);
-    }
-  }
-
-  addDataListener(callback: (data: string) => void): void {
-    this.dataListeners.push(callback);
-  }
-
-  removeDataListener(callback: (data: string) => void): void {
-    this.dataListeners = this.dataListeners.filter(listener => listener !== callback);
-  }
-
-  private notifyDataListeners(data: string): void {
-    this.dataListeners.forEach(listener => listener(data));
-  }
-
-  shareDeviceSession(sessionName: string, sessionId: string): ShareSession {
-    if (!this.connectedDevice) {
-      throw new Error("No device connected");
-    }
-
-    // Use the session ID that was already created in UserDeviceView
-    // Create the session object
-    const session: ShareSession = {
-      id: sessionId,
-      name: sessionName
+    return {
+      id: this.connectedDevice.id,
+      name: this.connectedDevice.name,
+      transport: 'ble',
+      detail: this.connectedDevice.transportProfile?.name
     };
-
-    this.sharedSession = session;
-
-    console.log(`Device session shared: ${sessionId} - ${sessionName}`);
-
-    // Explicitly fetch and log sessions to debug - fix Promise handling
-    sessionService.getAllSessions().then(sessions => {
-      console.log(`After sharing, session count: ${sessions.length}`);
-      sessionService.debugDumpSessions();
-    });
-
-    return session;
-  }
-
-  stopSharingSession(): void {
-    if (this.sharedSession) {
-      // Close the session in SessionService
-      const sessionId = this.sharedSession.id;
-      sessionService.closeSession(sessionId);
-      console.log(`Session sharing stopped, session closed: ${sessionId}`);
-
-      this.sharedSession = null;
-
-      // Verify sessions after closing - fix Promise handling
-      sessionService.getAllSessions().then(sessions => {
-        console.log(`After stopping sharing, remaining sessions: ${sessions.length}`);
-      });
-    }
-  }
-
-  getSharedSession(): ShareSession | null {
-    return this.sharedSession;
-  }
-
-  setSerialConfig(config: SerialConfig): void {
-    this.serialConfig = config;
-    console.log("Serial config updated:", config);
   }
 
-  getSerialConfig(): SerialConfig {
-    return this.serialConfig;
+  getConnectedDevice(): BluetoothDevice | null {
+    return this.connectedDevice;
   }
 
-  // Method for support to send commands to the user's device
-  async receiveSupportCommand(command: string): Promise<void> {
-    console.log(`Support command received: ${command}`);
-
-    // Check if a device is connected to execute the command
-    if (this.isConnected()) {
-      try {
-        // Don't use sendCommand as it might be saving to DB as 'user'
-        // Instead, directly send the command to the device
-        if (!this.characteristic) {
-          throw new Error("Bluetooth characteristic not available");
-        }
-
-        const encoder = new TextEncoder();
-        const data = encoder.encode(command + '\r\n'); // Add carriage return and line feed for AT commands
-        await this.characteristic.writeValue(data);
-        console.log(`Support command sent to device: ${command}`);
-
-        // Save the command to the database as 'support'
-        if (this.sharedSession) {
-          await this.saveCommandToDb(command, 'support');
-        }
-      } catch (error) {
-        console.error("Error executing support command:", error);
-        throw this.parseBluetoothError(error);
-      }
-    } else {
-      console.error("Cannot execute support command - no device connected");
-      throw this.parseBluetoothError(new Error("No device connected to execute command"));
-    }
+  getActiveTransportProfile(): TransportProfile | null {
+    return this.activeProfile;
   }
 }
 
@@ -0,0 +1,475 @@
+import { LineFramer, LineFramingOptions, DEFAULT_LINE_FRAMING } from './LineFramer';
+import {
+  DeviceConnectionState,
+  DeviceError,
+  DeviceInfo,
+  DeviceTransport,
+  parseDeviceError,
+  toDeviceError
+} from './DeviceTransport';
+
+interface PendingCommand {
+  command: string;
+  sender: 'user' | 'support';
+  commandId?: string;
+  resolve: () => void;
+  reject: (error: DeviceError) => void;
+}
+
+interface WriteJob {
+  data: Uint8Array;
+  label: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Outcome of a single command write, reported once all of its chunks are written
+export interface WriteResult {
+  command: string;
+  sender: 'user' | 'support';
+  status: 'completed' | 'failed';
+  error?: DeviceError;
+}
+
+// One complete line of serial traffic. raw holds the exact bytes, including the terminator for received lines
+export interface SerialRecord {
+  text: string;
+  raw: Uint8Array;
+  timestamp: Date;
+  direction: 'rx' | 'tx';
+  sender?: 'user' | 'support'; // Only set for transmitted records
+  correlationId?: string; // Query id linking a response line to the command that caused it
+}
+
+export interface QueryOptions {
+  timeoutMs?: number;
+  until?: RegExp; // Line that completes the response
+  errorPattern?: RegExp; // Line that means the command failed
+  sender?: 'user' | 'support';
+  id?: string; // Reuse an existing id, e.g. the session_commands row support inserted, so responses link to it
+}
+
+export interface QueryResult {
+  id: string;
+  command: string;
+  lines: string[];
+  startedAt: Date;
+  completedAt: Date;
+}
+
+interface ActiveQuery {
+  id: string;
+  onLine: (text: string) => void;
+}
+
+const DEFAULT_QUERY_TIMEOUT_MS = 3000;
+const DEFAULT_QUERY_UNTIL = /^(OK|ERROR)\b/;
+const DEFAULT_QUERY_ERROR = /^ERROR\b/;
+
+// The serial line to the device, on top of whichever transport is connected.
+// Frames received bytes into lines, serializes writes and queries, and holds commands while the transport reconnects
+class DeviceLinkService {
+  private transport: DeviceTransport | null = null;
+  private connectionState: DeviceConnectionState = 'disconnected';
+  private connectionStateListeners: ((state: DeviceConnectionState) => void)[] = [];
+  private dataListeners: ((data: string) => void)[] = [];
+  private pendingCommands: PendingCommand[] = []; // Commands held while reconnecting
+  private writeQueue: WriteJob[] = [];
+  private isProcessingWriteQueue = false;
+  private writeListeners: ((result: WriteResult) => void)[] = [];
+  private recordListeners: ((record: SerialRecord) => void)[] = [];
+  private rawDataListeners: ((bytes: Uint8Array) => void)[] = [];
+  private activeQuery: ActiveQuery | null = null;
+  private queryChain: Promise<void> = Promise.resolve();
+  private lineFramer = new LineFramer(DEFAULT_LINE_FRAMING, (text, raw, startedAt) => this.handleReceivedLine(text, raw, startedAt));
+
+  // Make the transport the active one and connect it. Any other transport is disconnected first
+  async connect(transport: DeviceTransport, deviceId?: string): Promise<void> {
+    if (this.transport && this.transport !== transport) {
+      this.disconnect();
+    }
+
+    this.attachTransport(transport);
+    try {
+      await transport.connect(deviceId);
+    } catch (error) {
+      throw toDeviceError(error);
+    }
+  }
+
+  private attachTransport(transport: DeviceTransport): void {
+    if (this.transport === transport) return;
+
+    this.detachTransport();
+    this.transport = transport;
+    transport.addDataListener(this.handleReceivedBytes);
+    transport.addStateListener(this.handleTransportState);
+  }
+
+  private detachTransport(): void {
+    this.transport?.removeDataListener(this.handleReceivedBytes);
+    this.transport?.removeStateListener(this.handleTransportState);
+    this.transport = null;
+  }
+
+  // Disconnect from the device
+  disconnect(): void {
+    const transport = this.transport;
+
+    this.rejectPendingCommands(new Error("No device connected"));
+    this.rejectQueuedWrites(new Error("No device connected"));
+    this.lineFramer.flush();
+
+    transport?.disconnect();
+    this.detachTransport();
+    this.setConnectionState('disconnected');
+  }
+
+  private handleReceivedBytes = (bytes: Uint8Array): void => {
+    this.notifyRawDataListeners(bytes);
+    this.lineFramer.push(bytes);
+  };
+
+  // Called by the line framer once a complete line has been received
+  private handleReceivedLine = (text: string, raw: Uint8Array, startedAt: Date): void => {
+    // Lines arriving while a query is outstanding are attributed to that query's command
+    const correlationId = this.activeQuery?.id;
+
+    this.notifyRecordListeners({ text, raw, timestamp: startedAt, direction: 'rx', correlationId });
+    this.notifyDataListeners(text);
+
+    this.activeQuery?.onLine(text);
+  };
+
+  private handleTransportState = (state: DeviceConnectionState): void => {
+    const previousState = this.connectionState;
+    this.setConnectionState(state);
+
+    if (state === 'connected' && previousState === 'reconnecting') {
+      this.replayPendingCommands();
+    } else if (state === 'disconnected') {
+      // The transport gave up reconnecting, nothing held will ever be sent
+      this.lineFramer.flush();
+      this.rejectPendingCommands(new Error("No device connected"));
+      this.rejectQueuedWrites(new Error("No device connected"));
+    }
+  };
+
+  // Send the commands that were held during the outage in the order they were issued
+  private async replayPendingCommands(): Promise<void> {
+    const pending = this.pendingCommands;
+    this.pendingCommands = [];
+
+    if (pending.length > 0) {
+      console.log(`Replaying ${pending.length} command(s) queued while reconnecting`);
+    }
+
+    for (const item of pending) {
+      try {
+        await this.writeCommand(item.command, item.sender, item.commandId);
+        item.resolve();
+      } catch (error) {
+        item.reject(parseDeviceError(error));
+      }
+    }
+  }
+
+  private rejectPendingCommands(error: Error): void {
+    const pending = this.pendingCommands;
+    this.pendingCommands = [];
+    pending.forEach(item => item.reject(parseDeviceError(error)));
+  }
+
+  private queuePendingCommand(command: string, sender: 'user' | 'support', commandId?: string): Promise<void> {
+    console.log(`Device is reconnecting, holding command: ${command}`);
+    return new Promise((resolve, reject) => {
+      this.pendingCommands.push({ command, sender, commandId, resolve, reject });
+    });
+  }
+
+  private setConnectionState(state: DeviceConnectionState): void {
+    if (this.connectionState === state) return;
+
+    this.connectionState = state;
+    this.connectionStateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("Error in connection state listener:", error);
+      }
+    });
+  }
+
+  getConnectionState(): DeviceConnectionState {
+    return this.connectionState;
+  }
+
+  isReconnecting(): boolean {
+    return this.connectionState === 'reconnecting';
+  }
+
+  addConnectionStateListener(callback: (state: DeviceConnectionState) => void): void {
+    this.connectionStateListeners.push(callback);
+  }
+
+  removeConnectionStateListener(callback: (state: DeviceConnectionState) => void): void {
+    this.connectionStateListeners = this.connectionStateListeners.filter(listener => listener !== callback);
+  }
+
+  // Every write to the device goes through this queue so user and support writes never overlap
+  // ("GATT operation already in progress")
+  private enqueueWrite(data: Uint8Array, label: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.writeQueue.push({ data, label, resolve, reject });
+      this.processWriteQueue();
+    });
+  }
+
+  private async processWriteQueue(): Promise<void> {
+    if (this.isProcessingWriteQueue) return;
+    this.isProcessingWriteQueue = true;
+
+    try {
+      while (this.writeQueue.length > 0) {
+        const job = this.writeQueue.shift();
+        try {
+          if (!this.transport) {
+            throw new Error("No device connected");
+          }
+          await this.transport.write(job.data);
+          job.resolve();
+        } catch (error) {
+          console.error(`Write failed for ${job.label}:`, error);
+          job.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    } finally {
+      this.isProcessingWriteQueue = false;
+    }
+  }
+
+  private rejectQueuedWrites(error: Error): void {
+    const queued = this.writeQueue;
+    this.writeQueue = [];
+    queued.forEach(job => job.reject(error));
+  }
+
+  addWriteListener(callback: (result: WriteResult) => void): void {
+    this.writeListeners.push(callback);
+  }
+
+  removeWriteListener(callback: (result: WriteResult) => void): void {
+    this.writeListeners = this.writeListeners.filter(listener => listener !== callback);
+  }
+
+  private notifyWriteListeners(result: WriteResult): void {
+    this.writeListeners.forEach(listener => {
+      try {
+        listener(result);
+      } catch (error) {
+        console.error("Error in write listener:", error);
+      }
+    });
+  }
+
+  // Check connection state more reliably
+  async verifyConnection(): Promise<boolean> {
+    return this.transport?.isConnected() ?? false;
+  }
+
+  isConnected(): boolean {
+    return this.transport?.isConnected() ?? false;
+  }
+
+  getConnectedDevice(): DeviceInfo | null {
+    return this.transport?.getDevice() ?? null;
+  }
+
+  getActiveTransport(): DeviceTransport | null {
+    return this.transport;
+  }
+
+  // Send command to the connected device
+  // While reconnecting the command is held and sent once the link is back
+  async sendCommand(command: string): Promise<void> {
+    return this.dispatchCommand(command, 'user');
+  }
+
+  // Send a command and wait for the device's answer. Queries are serialized so responses
+  // can't interleave; the result holds every line received until `until` matched
+  query(command: string, options: QueryOptions = {}): Promise<QueryResult> {
+    const run = this.queryChain.then(() => this.runQuery(command, options));
+    this.queryChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private runQuery(command: string, options: QueryOptions): Promise<QueryResult> {
+    const {
+      timeoutMs = DEFAULT_QUERY_TIMEOUT_MS,
+      until = DEFAULT_QUERY_UNTIL,
+      errorPattern = DEFAULT_QUERY_ERROR,
+      sender = 'user',
+      id = crypto.randomUUID()
+    } = options;
+
+    return new Promise((resolve, reject) => {
+      const startedAt = new Date();
+      const lines: string[] = [];
+      let timeoutId: number | null = null;
+      let settled = false;
+
+      const finish = (error?: DeviceError) => {
+        if (settled) return;
+        settled = true;
+        if (timeoutId !== null) clearTimeout(timeoutId);
+        if (this.activeQuery?.id === id) this.activeQuery = null;
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ id, command, lines, startedAt, completedAt: new Date() });
+        }
+      };
+
+      this.activeQuery = {
+        id,
+        onLine: (text: string) => {
+          lines.push(text);
+          if (errorPattern.test(text)) {
+            finish({
+              type: 'command-error',
+              message: `Device rejected ${command}: ${text}`,
+              response: lines
+            });
+          } else if (until.test(text)) {
+            finish();
+          }
+        }
+      };
+
+      this.dispatchCommand(command, sender, id)
+        .then(() => {
+          // Only start the clock once the command has actually left, it may have been held during a reconnect
+          if (settled) return;
+          timeoutId = window.setTimeout(() => finish({
+            type: 'command-timeout',
+            message: `No response to ${command} within ${timeoutMs}ms`,
+            response: lines
+          }), timeoutMs);
+        })
+        .catch(error => finish(toDeviceError(error)));
+    });
+  }
+
+  private async dispatchCommand(command: string, sender: 'user' | 'support', commandId?: string): Promise<void> {
+    if (this.isReconnecting()) {
+      return this.queuePendingCommand(command, sender, commandId);
+    }
+
+    // Verify connection is still active before sending
+    const isConnected = await this.verifyConnection();
+
+    if (!isConnected) {
+      throw parseDeviceError(new Error("No device connected"));
+    }
+
+    try {
+      await this.writeCommand(command, sender, commandId);
+    } catch (error) {
+      console.error("Error sending command:", error);
+      // The link dropped mid-write - hold the command for replay if a reconnect has started
+      if (this.isReconnecting()) {
+        return this.queuePendingCommand(command, sender, commandId);
+      }
+      throw parseDeviceError(error);
+    }
+  }
+
+  // Write a command to the device and report it as a transmitted record
+  private async writeCommand(command: string, sender: 'user' | 'support', commandId?: string): Promise<void> {
+    const encoder = new TextEncoder();
+    const data = encoder.encode(command + '\r\n'); // Add carriage return and line feed for AT commands
+
+    try {
+      await this.enqueueWrite(data, command);
+    } catch (error) {
+      this.notifyWriteListeners({ command, sender, status: 'failed', error: parseDeviceError(error) });
+      throw error;
+    }
+
+    console.log(`Command sent (${sender}): ${command}`);
+    this.notifyWriteListeners({ command, sender, status: 'completed' });
+    this.notifyRecordListeners({ text: command, raw: data, timestamp: new Date(), direction: 'tx', sender, correlationId: commandId });
+  }
+
+  addDataListener(callback: (data: string) => void): void {
+    this.dataListeners.push(callback);
+  }
+
+  removeDataListener(callback: (data: string) => void): void {
+    this.dataListeners = this.dataListeners.filter(listener => listener !== callback);
+  }
+
+  private notifyDataListeners(data: string): void {
+    this.dataListeners.forEach(listener => listener(data));
+  }
+
+  // Structured records for both directions, one per complete line
+  addRecordListener(callback: (record: SerialRecord) => void): void {
+    this.recordListeners.push(callback);
+  }
+
+  removeRecordListener(callback: (record: SerialRecord) => void): void {
+    this.recordListeners = this.recordListeners.filter(listener => listener !== callback);
+  }
+
+  private notifyRecordListeners(record: SerialRecord): void {
+    this.recordListeners.forEach(listener => {
+      try {
+        listener(record);
+      } catch (error) {
+        console.error("Error in record listener:", error);
+      }
+    });
+  }
+
+  // Payloads exactly as the transport received them, before any framing or decoding
+  addRawDataListener(callback: (bytes: Uint8Array) => void): void {
+    this.rawDataListeners.push(callback);
+  }
+
+  removeRawDataListener(callback: (bytes: Uint8Array) => void): void {
+    this.rawDataListeners = this.rawDataListeners.filter(listener => listener !== callback);
+  }
+
+  private notifyRawDataListeners(bytes: Uint8Array): void {
+    this.rawDataListeners.forEach(listener => {
+      try {
+        listener(bytes);
+      } catch (error) {
+        console.error("Error in raw data listener:", error);
+      }
+    });
+  }
+
+  setLineFraming(options: LineFramingOptions): void {
+    this.lineFramer.setOptions(options);
+    console.log("Line framing updated:", options);
+  }
+
+  getLineFraming(): LineFramingOptions {
+    return this.lineFramer.getOptions();
+  }
+
+  // Method for support to send commands to the user's device
+  async receiveSupportCommand(command: string): Promise<void> {
+    console.log(`Support command received: ${command}`);
+
+    // Don't use sendCommand so the command keeps its support sender
+    return this.dispatchCommand(command, 'support');
+  }
+}
+
+// Create a singleton instance
+const deviceLinkService = new DeviceLinkService();
+export default deviceLinkService;
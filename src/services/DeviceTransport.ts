@@ -0,0 +1,159 @@
+// A byte link to a serial device, whatever it is attached with
+// DeviceLinkService frames, queues and queries on top of the active transport, so a new transport only moves bytes
+
+// How the device is attached: a BLE serial module, or a USB-UART cable opened with Web Serial
+export type DeviceTransportKind = 'ble' | 'usb';
+
+export type DeviceConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// Error types to provide more specific information about device errors
+export type DeviceErrorType =
+  | 'not-supported'
+  | 'user-cancelled'
+  | 'security-error'
+  | 'connection-failed'
+  | 'device-disconnected'
+  | 'permission-denied'
+  | 'service-not-found'
+  | 'characteristic-not-found'
+  | 'write-failed'
+  | 'notification-failed'
+  | 'command-error'
+  | 'command-timeout'
+  | 'unknown';
+
+export interface DeviceError {
+  type: DeviceErrorType;
+  message: string;
+  originalError?: Error;
+  permissionState?: 'granted' | 'denied' | 'prompt' | 'unknown';
+  response?: string[]; // Lines received before a query failed
+}
+
+// The connected device as the rest of the app sees it
+export interface DeviceInfo {
+  id: string;
+  name: string;
+  transport: DeviceTransportKind;
+  detail?: string; // Shown next to the name and given to support, e.g. the BLE profile or the port settings
+}
+
+export interface DeviceTransport {
+  readonly kind: DeviceTransportKind;
+  // deviceId picks a device the transport already knows about. Without one it may prompt the user
+  connect(deviceId?: string): Promise<void>;
+  disconnect(): void;
+  write(data: Uint8Array): Promise<void>;
+  isConnected(): boolean;
+  getConnectionState(): DeviceConnectionState;
+  getDevice(): DeviceInfo | null;
+  addDataListener(callback: (bytes: Uint8Array) => void): void;
+  removeDataListener(callback: (bytes: Uint8Array) => void): void;
+  addStateListener(callback: (state: DeviceConnectionState) => void): void;
+  removeStateListener(callback: (state: DeviceConnectionState) => void): void;
+}
+
+// Listener bookkeeping shared by the transports
+export abstract class DeviceTransportBase implements DeviceTransport {
+  abstract readonly kind: DeviceTransportKind;
+  protected connectionState: DeviceConnectionState = 'disconnected';
+  private dataListeners: ((bytes: Uint8Array) => void)[] = [];
+  private stateListeners: ((state: DeviceConnectionState) => void)[] = [];
+
+  abstract connect(deviceId?: string): Promise<void>;
+  abstract disconnect(): void;
+  abstract write(data: Uint8Array): Promise<void>;
+  abstract isConnected(): boolean;
+  abstract getDevice(): DeviceInfo | null;
+
+  getConnectionState(): DeviceConnectionState {
+    return this.connectionState;
+  }
+
+  addDataListener(callback: (bytes: Uint8Array) => void): void {
+    this.dataListeners.push(callback);
+  }
+
+  removeDataListener(callback: (bytes: Uint8Array) => void): void {
+    this.dataListeners = this.dataListeners.filter(listener => listener !== callback);
+  }
+
+  addStateListener(callback: (state: DeviceConnectionState) => void): void {
+    this.stateListeners.push(callback);
+  }
+
+  removeStateListener(callback: (state: DeviceConnectionState) => void): void {
+    this.stateListeners = this.stateListeners.filter(listener => listener !== callback);
+  }
+
+  // Bytes exactly as they arrived, before any framing or decoding
+  protected notifyDataListeners(bytes: Uint8Array): void {
+    this.dataListeners.forEach(listener => {
+      try {
+        listener(bytes);
+      } catch (error) {
+        console.error("Error in transport data listener:", error);
+      }
+    });
+  }
+
+  protected setConnectionState(state: DeviceConnectionState): void {
+    if (this.connectionState === state) return;
+
+    this.connectionState = state;
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("Error in transport state listener:", error);
+      }
+    });
+  }
+}
+
+// Helper to categorize errors thrown by the browser APIs behind the transports
+export function parseDeviceError(error: unknown): DeviceError {
+  console.error("Device error:", error);
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const originalError = error instanceof Error ? error : undefined;
+  const withType = (type: DeviceErrorType, message: string): DeviceError => ({ type, message, originalError });
+
+  // Check for specific error types
+  if (errorMessage.includes('User cancelled')) {
+    return withType('user-cancelled', 'Operation was cancelled by the user');
+  } else if (errorMessage.includes('Bluetooth adapter is not available')) {
+    return withType('not-supported', 'Bluetooth is not available on this device or browser');
+  } else if (errorMessage.includes('GATT Server is disconnected')) {
+    return withType('device-disconnected', 'The Bluetooth device was disconnected');
+  } else if (errorMessage.includes('NotFoundError') || errorMessage.includes('no such service')) {
+    return withType('service-not-found', 'Required Bluetooth service not found on this device');
+  } else if (errorMessage.includes('SecurityError') || errorMessage.includes('secure context')) {
+    return withType('security-error', 'Bluetooth access requires a secure context (HTTPS)');
+  } else if (errorMessage.includes('Permission denied') || errorMessage.includes('NotAllowedError')) {
+    return withType('permission-denied', 'Permission to access Bluetooth was denied');
+  } else if (errorMessage.includes('Failed to connect')) {
+    return withType('connection-failed', 'Failed to connect to the Bluetooth device');
+  } else if (errorMessage.includes('getDevices is not a function')) {
+    return withType('not-supported', 'This browser does not fully support the Web Bluetooth API');
+  } else if (errorMessage.includes('No device connected')) {
+    return withType('device-disconnected', 'No device is connected');
+  } else if (errorMessage.includes('No port selected')) {
+    return withType('user-cancelled', 'No USB serial port was selected');
+  } else if (errorMessage.includes('Web Serial API is not available')) {
+    return withType('not-supported', 'USB serial is not available in this browser');
+  } else if (errorMessage.includes('Failed to open serial port')) {
+    return withType('connection-failed', 'Failed to open the USB serial port. It may be in use by another program');
+  } else if (errorMessage.includes('Serial port is not open')) {
+    return withType('device-disconnected', 'The USB serial port is not open');
+  } else if (errorMessage.includes('characteristic not available')) {
+    return withType('characteristic-not-found', 'Required Bluetooth characteristic not available');
+  }
+
+  return withType('unknown', 'An unknown error occurred');
+}
+
+// Errors thrown by the transports and the link are already parsed
+export function toDeviceError(error: unknown): DeviceError {
+  return error && typeof error === 'object' && 'type' in error ? error as DeviceError : parseDeviceError(error);
+}
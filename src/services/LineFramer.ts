@@ -0,0 +1,133 @@
+// Reassembles notification chunks into complete lines
+// BLE modules split responses at arbitrary byte boundaries, so lines are only decoded once fully received
+
+export type LineTerminator = 'cr' | 'lf' | 'crlf' | 'idle';
+
+export interface LineFramingOptions {
+  terminator: LineTerminator;
+  // In 'idle' mode a line ends after this much silence. In the other modes a partial line
+  // is flushed after the same delay so a prompt without a terminator isn't held forever
+  idleTimeoutMs: number;
+}
+
+export const DEFAULT_LINE_FRAMING: LineFramingOptions = {
+  terminator: 'crlf',
+  idleTimeoutMs: 250
+};
+
+const CR = 0x0d;
+const LF = 0x0a;
+
+export class LineFramer {
+  private options: LineFramingOptions;
+  private buffer: number[] = [];
+  private lineStartedAt: Date | null = null;
+  private idleTimeoutId: number | null = null;
+  private decoder = new TextDecoder('utf-8');
+  private onLine: (text: string, raw: Uint8Array, startedAt: Date) => void;
+
+  constructor(options: LineFramingOptions, onLine: (text: string, raw: Uint8Array, startedAt: Date) => void) {
+    this.options = { ...options };
+    this.onLine = onLine;
+  }
+
+  setOptions(options: LineFramingOptions): void {
+    // Flush whatever was buffered under the old rules before switching
+    this.flush();
+    this.options = { ...options };
+  }
+
+  getOptions(): LineFramingOptions {
+    return { ...this.options };
+  }
+
+  push(bytes: Uint8Array): void {
+    if (bytes.length === 0) return;
+
+    if (this.lineStartedAt === null) {
+      this.lineStartedAt = new Date();
+    }
+
+    for (const byte of bytes) {
+      this.buffer.push(byte);
+      if (this.endsWithTerminator()) {
+        this.emitLine(this.terminatorLength());
+      }
+    }
+
+    this.scheduleIdleFlush();
+  }
+
+  // Emit any partial line immediately
+  flush(): void {
+    this.clearIdleTimeout();
+    if (this.buffer.length > 0) {
+      this.emitLine(0);
+    }
+  }
+
+  // Drop buffered bytes without emitting them, e.g. after a disconnect
+  reset(): void {
+    this.clearIdleTimeout();
+    this.buffer = [];
+    this.lineStartedAt = null;
+  }
+
+  private endsWithTerminator(): boolean {
+    const length = this.buffer.length;
+    const last = this.buffer[length - 1];
+
+    switch (this.options.terminator) {
+      case 'cr':
+        return last === CR;
+      case 'lf':
+        return last === LF;
+      case 'crlf':
+        return last === LF && this.buffer[length - 2] === CR;
+      default:
+        return false;
+    }
+  }
+
+  private terminatorLength(): number {
+    return this.options.terminator === 'crlf' ? 2 : 1;
+  }
+
+  private emitLine(terminatorLength: number): void {
+    const raw = Uint8Array.from(this.buffer);
+    const startedAt = this.lineStartedAt ?? new Date();
+    this.buffer = [];
+    this.lineStartedAt = null;
+
+    let text = this.decoder.decode(raw.subarray(0, raw.length - terminatorLength));
+
+    // Tolerate the other half of a CRLF pair when framing on a single character
+    if (this.options.terminator === 'lf') {
+      text = text.replace(/\r$/, '');
+    } else if (this.options.terminator === 'cr') {
+      text = text.replace(/^\n/, '');
+    }
+
+    // Blank lines are padding between responses, not data
+    if (text.length === 0) return;
+
+    this.onLine(text, raw, startedAt);
+  }
+
+  private scheduleIdleFlush(): void {
+    this.clearIdleTimeout();
+    if (this.buffer.length === 0) return;
+
+    this.idleTimeoutId = window.setTimeout(() => {
+      this.idleTimeoutId = null;
+      this.flush();
+    }, this.options.idleTimeoutMs);
+  }
+
+  private clearIdleTimeout(): void {
+    if (this.idleTimeoutId !== null) {
+      clearTimeout(this.idleTimeoutId);
+      this.idleTimeoutId = null;
+    }
+  }
+}
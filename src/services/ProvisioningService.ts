@@ -0,0 +1,173 @@
+// Stores named MQTT provisioning profiles and applies them to the connected device
+// Only the settings that differ from the device's AT+CFG output are written. Profiles are listed without
+// their password; it is fetched for the one profile being edited or applied
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import deviceLinkService from "./DeviceLinkService";
+import type { DeviceError } from "./DeviceTransport";
+import { parseAtCfgResponse, DeviceConfig } from "@/lib/deviceConfig";
+import { MqttProfile, ProvisioningReport, planProvisioning, verifyProvisioning } from "@/lib/provisioning";
+
+const CONFIG_READ_TIMEOUT_MS = 5000;
+
+function toProfile(record: Omit<Tables<'provisioning_profiles'>, 'password' | 'created_at' | 'updated_at'> & { password?: string }): MqttProfile {
+  return {
+    id: record.id,
+    name: record.name,
+    payloadType: record.payload_type,
+    host: record.host,
+    port: record.port,
+    clientId: record.client_id,
+    username: record.username,
+    password: record.password ?? '',
+    pubTopic: record.pub_topic,
+    subTopic: record.sub_topic
+  };
+}
+
+class ProvisioningService {
+  private isApplying: boolean = false;
+
+  async getProfiles(): Promise<MqttProfile[]> {
+    const { data, error } = await supabase.rpc('list_provisioning_profiles');
+
+    if (error) {
+      console.error('[ProvisioningService] Error fetching profiles:', error);
+      throw error;
+    }
+
+    return (data ?? []).map(toProfile);
+  }
+
+  async withPassword(profile: MqttProfile): Promise<MqttProfile> {
+    const { data, error } = await supabase.rpc('get_provisioning_profile_password', { profile_id: profile.id });
+
+    if (error) {
+      console.error(`[ProvisioningService] Error fetching the password of ${profile.name}:`, error);
+      throw error;
+    }
+    if (data === null) {
+      throw new Error("The profile no longer exists");
+    }
+
+    return { ...profile, password: data };
+  }
+
+  // Insert a new profile, or update it in place when it has an id
+  async saveProfile(profile: MqttProfile): Promise<MqttProfile> {
+    const record = {
+      name: profile.name,
+      payload_type: profile.payloadType,
+      host: profile.host,
+      port: profile.port,
+      client_id: profile.clientId,
+      username: profile.username,
+      password: profile.password,
+      pub_topic: profile.pubTopic,
+      sub_topic: profile.subTopic,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = profile.id
+      ? await supabase.from('provisioning_profiles').update(record).eq('id', profile.id).select().single()
+      : await supabase.from('provisioning_profiles').insert(record).select().single();
+
+    if (error) {
+      console.error('[ProvisioningService] Error saving profile:', error);
+      throw error;
+    }
+
+    console.log(`[ProvisioningService] Saved profile ${data.name}`);
+    return toProfile(data);
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('provisioning_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`[ProvisioningService] Error deleting profile ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // Read AT+CFG, send the changed settings one by one through the command queue, then read back
+  // and compare. onProgress gets a fresh copy of the report after every step
+  async applyProfile(profile: MqttProfile, onProgress?: (report: ProvisioningReport) => void): Promise<ProvisioningReport> {
+    if (this.isApplying) {
+      throw new Error("A profile is already being applied");
+    }
+
+    this.isApplying = true;
+    const report: ProvisioningReport = {
+      profileName: profile.name,
+      startedAt: new Date(),
+      finishedAt: null,
+      steps: [],
+      verification: [],
+      passed: false
+    };
+    const publish = () => onProgress?.({ ...report, steps: report.steps.map(step => ({ ...step })) });
+
+    try {
+      const fullProfile = await this.withPassword(profile);
+      const current = await this.readConfig();
+      report.steps = planProvisioning(fullProfile, current);
+      publish();
+
+      for (const step of report.steps) {
+        if (step.status === 'unchanged') continue;
+
+        try {
+          // query() rejects with a command-error unless the device answers OK
+          await deviceLinkService.query(step.command);
+          step.status = 'applied';
+        } catch (error) {
+          step.status = 'failed';
+          step.error = 'type' in error ? (error as DeviceError).message : String(error);
+          console.error(`[ProvisioningService] ${step.command} failed:`, error);
+
+          // A dropped link fails every remaining step the same way
+          if ('type' in error && (error as DeviceError).type === 'device-disconnected') {
+            report.steps.filter(other => other.status === 'pending').forEach(other => other.status = 'skipped');
+            throw error;
+          }
+        }
+        publish();
+      }
+
+      const readBack = await this.readConfig();
+      report.verification = verifyProvisioning(report.steps, readBack);
+      report.passed = report.steps.every(step => step.status !== 'failed') &&
+        report.verification.every(result => result.passed);
+    } catch (error) {
+      // Device errors, thrown errors and Supabase errors all carry a message
+      report.error = error?.message ?? String(error);
+      report.passed = false;
+    } finally {
+      report.finishedAt = new Date();
+      this.isApplying = false;
+      publish();
+    }
+
+    console.log(`[ProvisioningService] Applied ${profile.name}: ${report.passed ? 'passed' : 'failed'}`);
+    return report;
+  }
+
+  private async readConfig(): Promise<DeviceConfig> {
+    const result = await deviceLinkService.query("AT+CFG", { timeoutMs: CONFIG_READ_TIMEOUT_MS });
+    const config = parseAtCfgResponse(result.lines);
+
+    if (Object.keys(config).length === 0) {
+      throw new Error("The device did not report any configuration");
+    }
+    return config;
+  }
+}
+
+// Create a singleton instance
+const provisioningService = new ProvisioningService();
+export default provisioningService;
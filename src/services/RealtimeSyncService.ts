@@ -0,0 +1,476 @@
+// This service keeps session data in sync over Supabase Realtime
+// History is loaded once, then only changes arrive. After a reconnect, only what was missed is fetched
+
+import { supabase } from "@/integrations/supabase/client";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+type SessionCommandRecord = Tables<'session_commands'>;
+type SessionMessageRecord = Tables<'session_messages'>;
+type RemoteSessionRecord = Tables<'remote_sessions'>;
+
+// 'reconnecting' means the channel dropped; Realtime rejoins by itself and we catch up when it does
+export type SyncStatus = 'connecting' | 'live' | 'reconnecting';
+
+export interface FeedState<T> {
+  // Oldest first
+  records: T[];
+  status: SyncStatus;
+}
+
+export type SessionsChange =
+  | { type: 'upsert'; record: RemoteSessionRecord }
+  | { type: 'delete'; id: string }
+  // The channel (re)joined - changes may have been missed, so reload the list
+  | { type: 'resync' };
+
+// What each participant of a session broadcasts about themselves while the session is open
+export interface SessionPresence {
+  userId: string;
+  name: string;
+  // Observers are agents watching a session read-only
+  role: 'user' | 'support' | 'observer';
+  // Only meaningful for the user - support has no device of its own in the session
+  deviceConnected: boolean;
+  typing: boolean;
+  onlineAt: string;
+}
+
+interface PresenceChannel {
+  channel: RealtimeChannel;
+  // Per tab, so two tabs of the same account show up as two participants
+  key: string;
+  presence: SessionPresence;
+  isSubscribed: boolean;
+}
+
+// Position in a feed: the last row read, ordered by (server-stamped time, id)
+interface SyncCursor {
+  at: string;
+  id: string;
+}
+
+interface FeedPage<T> {
+  records: T[];
+  error: unknown;
+}
+
+// One table of one session, e.g. the transcript or the chat
+interface Feed<T extends { id: string }> {
+  key: string;
+  sessionId: string;
+  table: string;
+  records: Map<string, T>;
+  cursor: SyncCursor | null;
+  status: SyncStatus;
+  channel: RealtimeChannel;
+  listeners: ((state: FeedState<T>) => void)[];
+  isCatchingUp: boolean;
+  // Another catch-up was requested while one was running
+  catchUpAgain: boolean;
+  fetchPage: (cursor: SyncCursor | null) => Promise<FeedPage<T>>;
+  getCursor: (record: T) => SyncCursor;
+  compare: (a: T, b: T) => number;
+}
+
+// Rows per request while loading history or catching up
+const PAGE_SIZE = 500;
+
+// Rows are stamped before they commit, so one that commits late can land just behind the cursor.
+// Every catch-up starts this far back and keeps whichever copy of a re-read row is newer
+const CATCH_UP_OVERLAP_MS = 5000;
+
+// Sorts before any real id, so the rewound cursor includes every row at its time
+const MIN_ID = '00000000-0000-0000-0000-000000000000';
+
+function rewindCursor(cursor: SyncCursor): SyncCursor {
+  return { at: new Date(new Date(cursor.at).getTime() - CATCH_UP_OVERLAP_MS).toISOString(), id: MIN_ID };
+}
+
+function isCursorAfter(a: SyncCursor, b: SyncCursor): boolean {
+  const byTime = new Date(a.at).getTime() - new Date(b.at).getTime();
+  return byTime > 0 || (byTime === 0 && a.id > b.id);
+}
+
+// PostgREST filter for rows after the cursor in (column, id) order
+function afterCursor(column: string, cursor: SyncCursor): string {
+  return `${column}.gt."${cursor.at}",and(${column}.eq."${cursor.at}",id.gt.${cursor.id})`;
+}
+
+function compareCommands(a: SessionCommandRecord, b: SessionCommandRecord): number {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+}
+
+function compareMessages(a: SessionMessageRecord, b: SessionMessageRecord): number {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
+
+class RealtimeSyncService {
+  // Keyed by table and session id
+  private feeds: Map<string, Feed<{ id: string }>> = new Map();
+  private sessionsChannel: RealtimeChannel | null = null;
+  private sessionsListeners: ((change: SessionsChange) => void)[] = [];
+  private presenceChannels: Map<string, PresenceChannel> = new Map();
+  // Broadcast-only channel that tells waiting users to re-read their queue position
+  private queueChannel: RealtimeChannel | null = null;
+  private isQueueChannelJoined: boolean = false;
+  private hasPendingQueueChange: boolean = false;
+  private queueListeners: (() => void)[] = [];
+
+  // Views of the same session share one channel and one copy of the transcript
+  addCommandsListener(sessionId: string, callback: (state: FeedState<SessionCommandRecord>) => void): void {
+    const feed = this.getOrOpenFeed<SessionCommandRecord>(`session_commands:${sessionId}`, () => ({
+      sessionId,
+      table: 'session_commands',
+      // updated_at moves on status and consent changes too, so catching up also picks those up
+      fetchPage: async (cursor) => {
+        let query = supabase.from('session_commands').select('*').eq('session_id', sessionId);
+        if (cursor) query = query.or(afterCursor('updated_at', cursor));
+        const { data, error } = await query
+          .order('updated_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE);
+        return { records: data ?? [], error };
+      },
+      getCursor: (record) => ({ at: record.updated_at, id: record.id }),
+      compare: compareCommands
+    }));
+    this.addFeedListener(feed, callback);
+  }
+
+  removeCommandsListener(sessionId: string, callback: (state: FeedState<SessionCommandRecord>) => void): void {
+    this.removeFeedListener(`session_commands:${sessionId}`, callback);
+  }
+
+  // Chat lives in its own table so it can never be mistaken for a device command
+  addMessagesListener(sessionId: string, callback: (state: FeedState<SessionMessageRecord>) => void): void {
+    const feed = this.getOrOpenFeed<SessionMessageRecord>(`session_messages:${sessionId}`, () => ({
+      sessionId,
+      table: 'session_messages',
+      fetchPage: async (cursor) => {
+        let query = supabase.from('session_messages').select('*').eq('session_id', sessionId);
+        if (cursor) query = query.or(afterCursor('created_at', cursor));
+        const { data, error } = await query
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE);
+        return { records: data ?? [], error };
+      },
+      getCursor: (record) => ({ at: record.created_at, id: record.id }),
+      compare: compareMessages
+    }));
+    this.addFeedListener(feed, callback);
+  }
+
+  removeMessagesListener(sessionId: string, callback: (state: FeedState<SessionMessageRecord>) => void): void {
+    this.removeFeedListener(`session_messages:${sessionId}`, callback);
+  }
+
+  addSessionsListener(callback: (change: SessionsChange) => void): void {
+    this.sessionsListeners.push(callback);
+    if (!this.sessionsChannel) {
+      this.sessionsChannel = this.openSessionsChannel();
+    }
+  }
+
+  removeSessionsListener(callback: (change: SessionsChange) => void): void {
+    this.sessionsListeners = this.sessionsListeners.filter(listener => listener !== callback);
+    if (this.sessionsListeners.length === 0 && this.sessionsChannel) {
+      supabase.removeChannel(this.sessionsChannel);
+      this.sessionsChannel = null;
+    }
+  }
+
+  // Waiting users cannot see other sessions, so whoever changes the queue tells them to look again
+  addQueueListener(callback: () => void): void {
+    this.queueListeners.push(callback);
+    this.openQueueChannel();
+  }
+
+  removeQueueListener(callback: () => void): void {
+    this.queueListeners = this.queueListeners.filter(listener => listener !== callback);
+  }
+
+  announceQueueChange(): void {
+    this.openQueueChannel();
+    if (!this.isQueueChannelJoined) {
+      this.hasPendingQueueChange = true;
+      return;
+    }
+    this.queueChannel.send({ type: 'broadcast', event: 'queue-changed', payload: {} });
+  }
+
+  private openQueueChannel(): void {
+    if (this.queueChannel) return;
+
+    this.queueChannel = supabase
+      .channel('support-queue')
+      .on('broadcast', { event: 'queue-changed' }, () => this.notifyQueueListeners())
+      .subscribe((status) => {
+        console.log(`[RealtimeSyncService] Queue channel: ${status}`);
+        this.isQueueChannelJoined = status === 'SUBSCRIBED';
+        if (!this.isQueueChannelJoined) return;
+
+        if (this.hasPendingQueueChange) {
+          this.hasPendingQueueChange = false;
+          this.announceQueueChange();
+        }
+        // Announcements may have been missed while the channel was down
+        this.notifyQueueListeners();
+      });
+  }
+
+  // Announce ourselves on the session's presence channel. The callback gets everyone else who is there
+  joinPresence(
+    sessionId: string,
+    presence: Omit<SessionPresence, 'onlineAt'>,
+    callback: (others: SessionPresence[]) => void
+  ): void {
+    this.leavePresence(sessionId);
+
+    const key = crypto.randomUUID();
+    const entry: PresenceChannel = {
+      channel: supabase.channel(`session-presence-${sessionId}`, { config: { presence: { key } } }),
+      key,
+      presence: { ...presence, onlineAt: new Date().toISOString() },
+      isSubscribed: false
+    };
+    this.presenceChannels.set(sessionId, entry);
+
+    entry.channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = entry.channel.presenceState<SessionPresence>();
+        const others = Object.entries(state)
+          .filter(([presenceKey]) => presenceKey !== key)
+          .map(([, presences]) => presences[presences.length - 1])
+          .filter(Boolean);
+        callback(others);
+      })
+      .subscribe((status) => {
+        console.log(`[RealtimeSyncService] Presence ${sessionId}: ${status}`);
+        entry.isSubscribed = status === 'SUBSCRIBED';
+        if (entry.isSubscribed) {
+          entry.channel.track(entry.presence);
+        }
+      });
+  }
+
+  updatePresence(sessionId: string, changes: Partial<Omit<SessionPresence, 'userId' | 'onlineAt'>>): void {
+    const entry = this.presenceChannels.get(sessionId);
+    if (!entry) return;
+
+    entry.presence = { ...entry.presence, ...changes };
+    // Before the join completes the latest state is tracked on SUBSCRIBED instead
+    if (entry.isSubscribed) {
+      entry.channel.track(entry.presence);
+    }
+  }
+
+  leavePresence(sessionId: string): void {
+    const entry = this.presenceChannels.get(sessionId);
+    if (!entry) return;
+
+    this.presenceChannels.delete(sessionId);
+    entry.channel.untrack();
+    supabase.removeChannel(entry.channel);
+  }
+
+  private getOrOpenFeed<T extends { id: string }>(
+    key: string,
+    describe: () => Pick<Feed<T>, 'sessionId' | 'table' | 'fetchPage' | 'getCursor' | 'compare'>
+  ): Feed<T> {
+    const existing = this.feeds.get(key);
+    if (existing) return existing as unknown as Feed<T>;
+
+    console.log(`[RealtimeSyncService] Opening feed ${key}`);
+    const description = describe();
+    const feed: Feed<T> = {
+      ...description,
+      key,
+      records: new Map(),
+      cursor: null,
+      status: 'connecting',
+      channel: supabase.channel(`sync-${description.table}-${description.sessionId}`),
+      listeners: [],
+      isCatchingUp: false,
+      catchUpAgain: false
+    };
+    this.feeds.set(key, feed as unknown as Feed<{ id: string }>);
+
+    const handleChange = (payload: { new: T }) => {
+      feed.records.set(payload.new.id, payload.new);
+      this.notifyFeedListeners(feed);
+    };
+
+    feed.channel
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: feed.table,
+        filter: `session_id=eq.${feed.sessionId}`
+      }, handleChange)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: feed.table,
+        filter: `session_id=eq.${feed.sessionId}`
+      }, handleChange)
+      .subscribe((status) => {
+        console.log(`[RealtimeSyncService] Feed ${key}: ${status}`);
+
+        if (status === 'SUBSCRIBED') {
+          // Subscribe first, then read: anything written in between arrives on one path or the other
+          this.catchUp(feed);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          this.setFeedStatus(feed, 'reconnecting');
+        }
+      });
+
+    return feed;
+  }
+
+  private addFeedListener<T extends { id: string }>(feed: Feed<T>, callback: (state: FeedState<T>) => void): void {
+    feed.listeners.push(callback);
+    callback(this.getFeedState(feed));
+  }
+
+  private removeFeedListener<T extends { id: string }>(key: string, callback: (state: FeedState<T>) => void): void {
+    const feed = this.feeds.get(key) as unknown as Feed<T> | undefined;
+    if (!feed) return;
+
+    feed.listeners = feed.listeners.filter(listener => listener !== callback);
+    if (feed.listeners.length === 0) {
+      console.log(`[RealtimeSyncService] Closing feed ${key}`);
+      this.feeds.delete(key);
+      supabase.removeChannel(feed.channel);
+    }
+  }
+
+  // Reads every row changed since the cursor. The first call loads the whole history
+  private async catchUp<T extends { id: string }>(feed: Feed<T>): Promise<void> {
+    if (feed.isCatchingUp) {
+      feed.catchUpAgain = true;
+      return;
+    }
+    feed.isCatchingUp = true;
+
+    try {
+      let cursor = feed.cursor ? rewindCursor(feed.cursor) : null;
+      let hasMore = true;
+      while (hasMore && this.isFeedOpen(feed)) {
+        const { records, error } = await feed.fetchPage(cursor);
+
+        if (error) {
+          console.error(`[RealtimeSyncService] Error catching up ${feed.key}:`, error);
+          this.setFeedStatus(feed, 'reconnecting');
+          return;
+        }
+
+        // Only rows read here move the cursor. Rows that arrived live are read again after a
+        // reconnect, which is cheaper than risking a gap
+        records.forEach(record => {
+          const held = feed.records.get(record.id);
+          // A live change may have delivered a newer version while this page was in flight
+          if (held && isCursorAfter(feed.getCursor(held), feed.getCursor(record))) return;
+          feed.records.set(record.id, record);
+        });
+        if (records.length > 0) {
+          cursor = feed.getCursor(records[records.length - 1]);
+          if (!feed.cursor || isCursorAfter(cursor, feed.cursor)) {
+            feed.cursor = cursor;
+          }
+          this.notifyFeedListeners(feed);
+        }
+
+        hasMore = records.length === PAGE_SIZE;
+      }
+
+      console.log(`[RealtimeSyncService] ${feed.key} in sync with ${feed.records.size} rows`);
+      this.setFeedStatus(feed, 'live');
+    } catch (error) {
+      console.error(`[RealtimeSyncService] Error in catchUp ${feed.key}:`, error);
+      this.setFeedStatus(feed, 'reconnecting');
+    } finally {
+      feed.isCatchingUp = false;
+      if (feed.catchUpAgain) {
+        feed.catchUpAgain = false;
+        this.catchUp(feed);
+      }
+    }
+  }
+
+  private isFeedOpen<T extends { id: string }>(feed: Feed<T>): boolean {
+    return this.feeds.get(feed.key) === (feed as unknown as Feed<{ id: string }>);
+  }
+
+  private openSessionsChannel(): RealtimeChannel {
+    return supabase
+      .channel('remote-sessions-sync')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'remote_sessions'
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const id = (payload.old as Partial<RemoteSessionRecord>).id;
+          if (id) this.notifySessionsListeners({ type: 'delete', id });
+        } else {
+          this.notifySessionsListeners({ type: 'upsert', record: payload.new as RemoteSessionRecord });
+        }
+      })
+      .subscribe((status) => {
+        console.log(`[RealtimeSyncService] Sessions channel: ${status}`);
+        if (status === 'SUBSCRIBED') {
+          this.notifySessionsListeners({ type: 'resync' });
+        }
+      });
+  }
+
+  private getFeedState<T extends { id: string }>(feed: Feed<T>): FeedState<T> {
+    return {
+      records: Array.from(feed.records.values()).sort(feed.compare),
+      status: feed.status
+    };
+  }
+
+  private setFeedStatus<T extends { id: string }>(feed: Feed<T>, status: SyncStatus): void {
+    if (feed.status === status) return;
+    feed.status = status;
+    this.notifyFeedListeners(feed);
+  }
+
+  private notifyFeedListeners<T extends { id: string }>(feed: Feed<T>): void {
+    const state = this.getFeedState(feed);
+    feed.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error(`[RealtimeSyncService] Error in ${feed.table} listener callback:`, error);
+      }
+    });
+  }
+
+  private notifyQueueListeners(): void {
+    this.queueListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("[RealtimeSyncService] Error in queue listener callback:", error);
+      }
+    });
+  }
+
+  private notifySessionsListeners(change: SessionsChange): void {
+    this.sessionsListeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("[RealtimeSyncService] Error in sessions listener callback:", error);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+const realtimeSyncService = new RealtimeSyncService();
+export default realtimeSyncService;
@@ -0,0 +1,178 @@
+// Reads closed sessions and their transcripts from the archive. Transcripts of open sessions
+// can be read the same way, e.g. for an export. Nothing here writes to the database
+
+import { supabase } from "@/integrations/supabase/client";
+import type { PostgrestError } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+import type { SessionEndReason } from "@/lib/sessionEnd";
+import type { SessionPriority } from "@/lib/sessionQueue";
+import type { ControlPolicy } from "@/lib/controlPolicy";
+import { ConfigSnapshot, SessionCommand, SessionMessage, toConfigSnapshot } from "./SessionService";
+
+const PAGE_SIZE = 500;
+// The history list shows the most recent sessions matching the filters, not the whole archive
+const HISTORY_LIMIT = 200;
+
+export interface ArchivedSession {
+  id: string;
+  name: string;
+  user: string;
+  device: string;
+  deviceType: string | null;
+  agentName: string | null;
+  priority: SessionPriority;
+  controlPolicy: ControlPolicy;
+  startTime: Date;
+  // Null for sessions closed before end times were recorded
+  endedAt: Date | null;
+  endReason: SessionEndReason | null;
+}
+
+// Text filters match anywhere, ignoring case. to is exclusive
+export interface SessionHistoryFilters {
+  user?: string;
+  device?: string;
+  agent?: string;
+  from?: Date | null;
+  to?: Date | null;
+}
+
+// The device link going down or coming back, recorded whenever device_state changed
+export type SessionDeviceEvent = Tables<'session_device_events'>;
+
+// Everything recorded during one session, each list in the order it happened
+export interface SessionTranscript {
+  session: ArchivedSession;
+  commands: SessionCommand[];
+  messages: SessionMessage[];
+  snapshots: ConfigSnapshot[];
+  deviceEvents: SessionDeviceEvent[];
+}
+
+function toArchivedSession(record: Tables<'remote_sessions'>): ArchivedSession {
+  return {
+    id: record.id,
+    name: record.name,
+    user: record.user_name,
+    device: record.device,
+    deviceType: record.device_type,
+    agentName: record.assigned_agent_name,
+    priority: record.priority as SessionPriority,
+    controlPolicy: record.control_policy as ControlPolicy,
+    startTime: new Date(record.start_time),
+    endedAt: record.ended_at ? new Date(record.ended_at) : null,
+    endReason: record.end_reason as SessionEndReason | null
+  };
+}
+
+// ilike pattern for free text. Characters that mean something to PostgREST filters are dropped
+function toPattern(value: string): string {
+  return `%${value.trim().replace(/[%_,()\\]/g, "")}%`;
+}
+
+// Transcripts can be longer than one response, so read them page by page
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+class SessionHistoryService {
+  async getSessions(filters: SessionHistoryFilters = {}): Promise<ArchivedSession[]> {
+    let query = supabase
+      .from('remote_sessions')
+      .select('*')
+      .eq('is_active', false);
+
+    if (filters.user?.trim()) {
+      query = query.ilike('user_name', toPattern(filters.user));
+    }
+    if (filters.device?.trim()) {
+      const pattern = toPattern(filters.device);
+      query = query.or(`device.ilike.${pattern},device_type.ilike.${pattern}`);
+    }
+    if (filters.agent?.trim()) {
+      query = query.ilike('assigned_agent_name', toPattern(filters.agent));
+    }
+    if (filters.from) {
+      query = query.gte('start_time', filters.from.toISOString());
+    }
+    if (filters.to) {
+      query = query.lt('start_time', filters.to.toISOString());
+    }
+
+    const { data, error } = await query
+      .order('ended_at', { ascending: false, nullsFirst: false })
+      .order('start_time', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) {
+      console.error('[SessionHistoryService] Error fetching session history:', error);
+      throw error;
+    }
+
+    return (data ?? []).map(toArchivedSession);
+  }
+
+  async getTranscript(sessionId: string): Promise<SessionTranscript> {
+    try {
+      const { data: record, error } = await supabase
+        .from('remote_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .single();
+      if (error) throw error;
+
+      const [commands, messages, snapshots, deviceEvents] = await Promise.all([
+        fetchAllPages<SessionCommand>((from, to) => supabase
+          .from('session_commands')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('timestamp', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)),
+        fetchAllPages<SessionMessage>((from, to) => supabase
+          .from('session_messages')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)),
+        fetchAllPages<Tables<'session_config_snapshots'>>((from, to) => supabase
+          .from('session_config_snapshots')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('captured_at', { ascending: true })
+          .range(from, to)),
+        fetchAllPages<SessionDeviceEvent>((from, to) => supabase
+          .from('session_device_events')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('created_at', { ascending: true })
+          .range(from, to))
+      ]);
+
+      console.log(`[SessionHistoryService] Loaded transcript of ${sessionId}: ${commands.length} lines, ${messages.length} messages`);
+      return {
+        session: toArchivedSession(record),
+        commands,
+        messages,
+        snapshots: snapshots.map(toConfigSnapshot),
+        deviceEvents
+      };
+    } catch (error) {
+      console.error(`[SessionHistoryService] Error fetching transcript of ${sessionId}:`, error);
+      throw error;
+    }
+  }
+}
+
+// Create a singleton instance
+const sessionHistoryService = new SessionHistoryService();
+export default sessionHistoryService;
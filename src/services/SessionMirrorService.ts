@@ -0,0 +1,148 @@
+import sessionService from './SessionService';
+import deviceLinkService, { SerialRecord } from './DeviceLinkService';
+import { supabase } from "@/integrations/supabase/client";
+import type { DeviceConnectionState } from './DeviceTransport';
+import { redactSecretConfigLine } from "@/lib/deviceConfig";
+
+export interface ShareSession {
+  id: string;
+  name: string;
+}
+
+// Mirrors the device link into a shared support session: the serial traffic goes to session_commands
+// and the link state to remote_sessions. It only listens to DeviceLinkService, so any transport is mirrored the same way
+class SessionMirrorService {
+  private sharedSession: ShareSession | null = null;
+  // Rows are inserted one at a time so the transcript keeps the order the lines were sent and received in
+  private insertChain: Promise<void> = Promise.resolve();
+
+  constructor() {
+    deviceLinkService.addRecordListener(this.handleRecord);
+    deviceLinkService.addConnectionStateListener(this.handleConnectionState);
+  }
+
+  // Secrets such as AT+PWD=... and its AT+CFG echo never reach the shared transcript
+  private handleRecord = (record: SerialRecord): void => {
+    if (!this.sharedSession) return;
+
+    const text = redactSecretConfigLine(record.text);
+    if (record.direction === 'rx') {
+      this.enqueueInsert(() => this.saveReceivedDataToDb(text, record.correlationId));
+    } else if (record.sender === 'user') {
+      // Support commands already have their row - support inserted it to send the command
+      this.enqueueInsert(() => this.saveCommandToDb(text, record.sender, record.correlationId));
+    }
+  };
+
+  // Mirror the link state to the shared session so the support side can see it
+  private handleConnectionState = (state: DeviceConnectionState): void => {
+    if (this.sharedSession) {
+      sessionService.updateDeviceState(this.sharedSession.id, state);
+    }
+  };
+
+  private enqueueInsert(insert: () => Promise<void>): void {
+    this.insertChain = this.insertChain.then(insert, insert);
+  }
+
+  // Save device data to the database for support view
+  private async saveReceivedDataToDb(data: string, inReplyTo: string | undefined): Promise<void> {
+    if (!this.sharedSession) return;
+
+    try {
+      const { error } = await supabase
+        .from('session_commands')
+        .insert([
+          {
+            session_id: this.sharedSession.id,
+            command: data,
+            sender: 'device', // Indicate this came from the device
+            in_reply_to: inReplyTo ?? null
+          }
+        ]);
+
+      if (error) {
+        console.error("Error saving device data to database:", error);
+      }
+    } catch (err) {
+      console.error("Error in saveReceivedDataToDb:", err);
+    }
+  }
+
+  // commandId is used as the row id so device responses can reference it before the insert returns
+  private async saveCommandToDb(command: string, sender: 'user' | 'support', commandId?: string): Promise<void> {
+    if (!this.sharedSession) return;
+
+    try {
+      console.log(`Saving command to DB: ${command} from ${sender}`);
+      const { error } = await supabase
+        .from('session_commands')
+        .insert([
+          {
+            id: commandId,
+            session_id: this.sharedSession.id,
+            command: command,
+            sender: sender
+          }
+        ]);
+
+      if (error) {
+        console.error("Error saving command to database:", error);
+      }
+    } catch (err) {
+      console.error("Error in saveCommandToDb:", err);
+    }
+  }
+
+  shareDeviceSession(sessionName: string, sessionId: string): ShareSession {
+    if (!deviceLinkService.getConnectedDevice()) {
+      throw new Error("No device connected");
+    }
+
+    // Use the session ID that was already created in UserDeviceView
+    // Create the session object
+    const session: ShareSession = {
+      id: sessionId,
+      name: sessionName
+    };
+
+    this.sharedSession = session;
+    sessionService.setHeartbeatSession(sessionId);
+    sessionService.updateDeviceState(sessionId, deviceLinkService.getConnectionState());
+
+    console.log(`Device session shared: ${sessionId} - ${sessionName}`);
+
+    // Explicitly fetch and log sessions to debug - fix Promise handling
+    sessionService.getAllSessions().then(sessions => {
+      console.log(`After sharing, session count: ${sessions.length}`);
+      sessionService.debugDumpSessions();
+    });
+
+    return session;
+  }
+
+  stopSharingSession(): void {
+    if (this.sharedSession) {
+      // Close the session in SessionService
+      const sessionId = this.sharedSession.id;
+      sessionService.setHeartbeatSession(null);
+      sessionService.closeSession(sessionId);
+      console.log(`Session sharing stopped, session closed: ${sessionId}`);
+
+      this.sharedSession = null;
+
+      // Verify sessions after closing - fix Promise handling
+      sessionService.getAllSessions().then(sessions => {
+        console.log(`After stopping sharing, remaining sessions: ${sessions.length}`);
+      });
+    }
+  }
+
+  getSharedSession(): ShareSession | null {
+    return this.sharedSession;
+  }
+}
+
+// Create a singleton instance
+const sessionMirrorService = new SessionMirrorService();
+export default sessionMirrorService;
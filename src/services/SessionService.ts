@@ -4,6 +4,63 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import type { DeviceConnectionState } from "./DeviceTransport";
+import type { Tables } from "@/integrations/supabase/types";
+import type { DeviceConfig } from "@/lib/deviceConfig";
+import type { ConsentDecision, ControlPolicy } from "@/lib/controlPolicy";
+import type { CommandStatus } from "@/lib/commandStatus";
+import { DEFAULT_SESSION_PRIORITY, QueueStatus, SessionPriority, WaitingSummary } from "@/lib/sessionQueue";
+import type { SessionEndReason } from "@/lib/sessionEnd";
+import authService from "./AuthService";
+import realtimeSyncService, { SessionsChange } from "./RealtimeSyncService";
+
+// A row of the session transcript: a command from user or support, or a line from the device
+export type SessionCommand = Tables<'session_commands'>;
+
+// A chat message between the user and support. Never sent to the device
+export type SessionMessage = Tables<'session_messages'>;
+
+// Identifies this tab when acknowledging support commands. Kept per tab, so a reload is the same client
+const CLIENT_INSTANCE_KEY = 'clientInstanceId';
+function getClientInstanceId(): string {
+  let id = sessionStorage.getItem(CLIENT_INSTANCE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(CLIENT_INSTANCE_KEY, id);
+  }
+  return id;
+}
+
+// Parsed AT+CFG output captured during a session
+export interface ConfigSnapshot {
+  id: string;
+  sessionId: string;
+  config: DeviceConfig;
+  capturedBy: string;
+  capturedAt: Date;
+}
+
+export function toConfigSnapshot(record: Tables<'session_config_snapshots'>): ConfigSnapshot {
+  return {
+    id: record.id,
+    sessionId: record.session_id,
+    config: record.config as DeviceConfig,
+    capturedBy: record.captured_by,
+    capturedAt: new Date(record.captured_at)
+  };
+}
+
+// A support agent a session can be handed to
+export interface SupportAgent {
+  id: string;
+  name: string;
+}
+
+// One-time code a user hands to support so an agent can attach to their session
+export interface SessionJoinCode {
+  code: string;
+  expiresAt: Date;
+}
 
 export interface Session {
   id: string;
@@ -11,6 +68,22 @@ export interface Session {
   user: string;
   device: string;
   startTime: Date;
+  // Link state reported by the user's client, e.g. "reconnecting" during a BLE drop
+  deviceState: DeviceConnectionState;
+  ownerId: string | null;
+  // Support agent handling the session, null while it is waiting in the queue
+  assignedAgentId: string | null;
+  assignedAgentName: string | null;
+  // Left by the previous agent when the session was transferred
+  handoffNote: string | null;
+  handedOffAt: Date | null;
+  priority: SessionPriority;
+  // Serial module type, e.g. the transport profile name, so agents can pick sessions they know
+  deviceType: string | null;
+  // When the session last entered the queue - at creation or when an agent released it
+  queuedAt: Date;
+  // Which support commands run without asking the user first
+  controlPolicy: ControlPolicy;
 
   // In seconds
   getDuration(): number;
@@ -24,13 +97,49 @@ class SessionImpl implements Session {
   user: string;
   device: string;
   startTime: Date;
-
-  constructor(id: string, name: string, user: string, device: string, startTime: Date = new Date()) {
+  deviceState: DeviceConnectionState;
+  ownerId: string | null;
+  assignedAgentId: string | null;
+  assignedAgentName: string | null;
+  handoffNote: string | null;
+  handedOffAt: Date | null;
+  priority: SessionPriority;
+  deviceType: string | null;
+  queuedAt: Date;
+  controlPolicy: ControlPolicy;
+
+  constructor(
+    id: string,
+    name: string,
+    user: string,
+    device: string,
+    startTime: Date = new Date(),
+    deviceState: DeviceConnectionState = 'connected',
+    ownerId: string | null = null,
+    assignedAgentId: string | null = null,
+    controlPolicy: ControlPolicy = 'always-ask',
+    assignedAgentName: string | null = null,
+    handoffNote: string | null = null,
+    handedOffAt: Date | null = null,
+    priority: SessionPriority = DEFAULT_SESSION_PRIORITY,
+    deviceType: string | null = null,
+    queuedAt: Date = startTime
+  ) {
     this.id = id;
     this.name = name;
     this.user = user;
     this.device = device;
     this.startTime = startTime;
+    this.deviceState = deviceState;
+    this.ownerId = ownerId;
+    this.assignedAgentId = assignedAgentId;
+    this.controlPolicy = controlPolicy;
+    this.assignedAgentName = assignedAgentName;
+    this.handoffNote = handoffNote;
+    this.handedOffAt = handedOffAt;
+    this.priority = priority;
+    this.deviceType = deviceType;
+    this.queuedAt = queuedAt;
   }
 
   getDuration(): number {
@@ -49,27 +158,55 @@ class SessionImpl implements Session {
   }
 }
 
+function toSession(record: Tables<'remote_sessions'>): SessionImpl {
+  return new SessionImpl(
+    record.id,
+    record.name,
+    record.user_name,
+    record.device,
+    new Date(record.start_time),
+    record.device_state as DeviceConnectionState,
+    record.owner_id,
+    record.assigned_agent_id,
+    record.control_policy as ControlPolicy,
+    record.assigned_agent_name,
+    record.handoff_note,
+    record.handed_off_at ? new Date(record.handed_off_at) : null,
+    record.priority as SessionPriority,
+    record.device_type,
+    new Date(record.queued_at)
+  );
+}
+
 class SessionService {
   private activeSessions: Map<string, Session> = new Map();
   private listeners: ((sessions: Session[]) => void)[] = [];
-  private updateIntervalId: number | null = null;
+  private sessionEndedListeners: ((session: Session, reason: SessionEndReason) => void)[] = [];
+  private heartbeatIntervalId: number | null = null;
+  // The session this tab is mirroring its device into. Only it gets a heartbeat
+  private heartbeatSessionId: string | null = null;
   private isFetching: boolean = false;
 
   constructor() {
     console.log("[SessionService] Initialized with Supabase integration");
 
-    // Setup periodic updates to keep session data fresh
-    this.updateIntervalId = window.setInterval(() => {
-      if (this.activeSessions.size > 0) {
-        this.updateSessionsInDb();
-        this.notifyListeners();
-      } else {
-        this.fetchSessionsFromDb();
-      }
-    }, 10000); // Update every 10 seconds
+    // Heartbeat for the session this tab shares. Everyone else's changes arrive over realtime
+    this.heartbeatIntervalId = window.setInterval(() => this.updateSessionsInDb(), 10000);
 
     // Do an initial fetch of sessions from the database
     this.fetchSessionsFromDb();
+
+    realtimeSyncService.addSessionsListener(this.handleSessionsChange);
+
+    // RLS decides which sessions are visible, so refetch whenever the signed-in user changes
+    authService.addAuthListener(() => this.fetchSessionsFromDb());
+
+    // An invite to observe doesn't touch the session row, so agents look again when one is announced
+    realtimeSyncService.addQueueListener(() => {
+      if (authService.getState().profile?.role === 'support_agent') {
+        this.fetchSessionsFromDb();
+      }
+    });
   }
 
   private async fetchSessionsFromDb(): Promise<void> {
@@ -93,14 +230,7 @@ class SessionService {
       this.activeSessions.clear();
       if (data) {
         data.forEach(record => {
-          const session = new SessionImpl(
-            record.id,
-            record.name,
-            record.user_name,
-            record.device,
-            new Date(record.start_time)
-          );
-          this.activeSessions.set(record.id, session);
+          this.activeSessions.set(record.id, toSession(record));
         });
       }
 
@@ -113,21 +243,496 @@ class SessionService {
     }
   }
 
+  private handleSessionsChange = (change: SessionsChange): void => {
+    if (change.type === 'resync') {
+      this.fetchSessionsFromDb();
+      return;
+    }
+
+    if (change.type === 'upsert' && change.record.is_active) {
+      this.activeSessions.set(change.record.id, toSession(change.record));
+    } else {
+      const id = change.type === 'upsert' ? change.record.id : change.id;
+      const ended = this.activeSessions.get(id);
+      if (!this.activeSessions.delete(id)) return;
+      if (change.type === 'upsert' && change.record.end_reason) {
+        this.notifySessionEndedListeners(ended, change.record.end_reason as SessionEndReason);
+      }
+    }
+    this.notifyListeners();
+  };
+
+  // Set by SessionMirrorService while it shares a session, and cleared when it stops
+  setHeartbeatSession(id: string | null): void {
+    this.heartbeatSessionId = id;
+  }
+
   private async updateSessionsInDb(): Promise<void> {
+    const id = this.heartbeatSessionId;
+    if (!id) return;
+
     try {
-      // Update last_active timestamp for all active sessions
-      for (const [id, _] of this.activeSessions) {
-        await supabase
-          .from('remote_sessions')
-          .update({ last_active: new Date().toISOString() })
-          .eq('id', id);
-      }
+      // Sessions left behind by a closed tab get no heartbeat, so reap_stale_sessions() ends them
+      await supabase
+        .from('remote_sessions')
+        .update({ last_active: new Date().toISOString() })
+        .eq('id', id);
     } catch (error) {
       console.error('[SessionService] Error updating sessions in DB:', error);
     }
   }
 
-  async createSession(name: string, user: string, device: string): Promise<Session> {
+  async updateDeviceState(id: string, deviceState: DeviceConnectionState): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('remote_sessions')
+        .update({ device_state: deviceState, last_active: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) {
+        console.error(`[SessionService] Error updating device state for session ${id}:`, error);
+        return;
+      }
+
+      const session = this.activeSessions.get(id);
+      if (session) {
+        session.deviceState = deviceState;
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error(`[SessionService] Error in updateDeviceState ${id}:`, error);
+    }
+  }
+
+  async updateControlPolicy(id: string, controlPolicy: ControlPolicy): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('remote_sessions')
+        .update({ control_policy: controlPolicy })
+        .eq('id', id);
+
+      if (error) {
+        console.error(`[SessionService] Error updating control policy for session ${id}:`, error);
+        return false;
+      }
+
+      const session = this.activeSessions.get(id);
+      if (session) {
+        session.controlPolicy = controlPolicy;
+        this.notifyListeners();
+      }
+      return true;
+    } catch (error) {
+      console.error(`[SessionService] Error in updateControlPolicy ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Record the user's answer to a support command so the support view can show it
+  async recordCommandConsent(commandId: string, decision: ConsentDecision): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('record_command_consent', { command_id: commandId, decision });
+
+      if (error) {
+        console.error(`[SessionService] Error recording consent for command ${commandId}:`, error);
+        return false;
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in recordCommandConsent ${commandId}:`, error);
+      return false;
+    }
+  }
+
+  // Claim a support command for this client. Only one caller ever gets 'acknowledged' for a given
+  // command, across tabs and reloads, so only that caller may run it. 'failed' means try again later
+  async acknowledgeCommand(commandId: string): Promise<'acknowledged' | 'already-acknowledged' | 'failed'> {
+    try {
+      const { data, error } = await supabase.rpc('acknowledge_command', {
+        command_id: commandId,
+        client_id: getClientInstanceId()
+      });
+
+      if (error) {
+        console.error(`[SessionService] Error acknowledging command ${commandId}:`, error);
+        return 'failed';
+      }
+      return data ? 'acknowledged' : 'already-acknowledged';
+    } catch (error) {
+      console.error(`[SessionService] Error in acknowledgeCommand ${commandId}:`, error);
+      return 'failed';
+    }
+  }
+
+  // Whether this tab won the acknowledgement of a command, e.g. before a reload
+  isAcknowledgedHere(command: SessionCommand): boolean {
+    return command.acked_by === getClientInstanceId();
+  }
+
+  // Report progress on a support command. The server ignores updates that would move the status backwards
+  async updateCommandStatus(commandId: string, status: CommandStatus, detail?: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('update_command_status', {
+        command_id: commandId,
+        new_status: status,
+        detail: detail ?? null
+      });
+
+      if (error) {
+        console.error(`[SessionService] Error updating status of command ${commandId}:`, error);
+        return false;
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in updateCommandStatus ${commandId}:`, error);
+      return false;
+    }
+  }
+
+  // The server decides whether the sender is the user or support, from who owns the session
+  async sendMessage(sessionId: string, body: string, senderName: string, sender: SessionMessage['sender']): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('session_messages')
+        .insert({ session_id: sessionId, body, sender_name: senderName, sender });
+
+      if (error) {
+        console.error(`[SessionService] Error sending message in session ${sessionId}:`, error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error(`[SessionService] Error in sendMessage ${sessionId}:`, error);
+      return false;
+    }
+  }
+
+  async saveConfigSnapshot(sessionId: string, config: DeviceConfig, capturedBy: string = 'user'): Promise<ConfigSnapshot | null> {
+    try {
+      const { data, error } = await supabase
+        .from('session_config_snapshots')
+        .insert({ session_id: sessionId, config, captured_by: capturedBy })
+        .select()
+        .single();
+
+      if (error) {
+        console.error(`[SessionService] Error saving config snapshot for session ${sessionId}:`, error);
+        return null;
+      }
+
+      console.log(`[SessionService] Saved config snapshot ${data.id} for session ${sessionId}`);
+      return toConfigSnapshot(data);
+    } catch (error) {
+      console.error(`[SessionService] Error in saveConfigSnapshot ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  // Oldest first, so the first entry is the configuration before any changes
+  async getConfigSnapshots(sessionId: string): Promise<ConfigSnapshot[]> {
+    try {
+      const { data, error } = await supabase
+        .from('session_config_snapshots')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('captured_at', { ascending: true });
+
+      if (error) {
+        console.error(`[SessionService] Error fetching config snapshots for session ${sessionId}:`, error);
+        return [];
+      }
+
+      return (data ?? []).map(toConfigSnapshot);
+    } catch (error) {
+      console.error(`[SessionService] Error in getConfigSnapshots ${sessionId}:`, error);
+      return [];
+    }
+  }
+
+  // Support agents pick up a session before they can read its transcript or send commands
+  async assignAgent(id: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('assign_session_agent', { target_session_id: id });
+
+      if (error) {
+        console.error(`[SessionService] Error assigning agent to session ${id}:`, error);
+        return false;
+      }
+
+      if (data) {
+        realtimeSyncService.announceQueueChange();
+        const session = this.activeSessions.get(id);
+        const { user, profile } = authService.getState();
+        if (session) {
+          session.assignedAgentId = user?.id ?? null;
+          session.assignedAgentName = profile?.displayName || profile?.email || null;
+          this.notifyListeners();
+        }
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in assignAgent ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Put the session back in the queue, where the next agent to take one or a new join code picks it up
+  async releaseSession(id: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('release_session_agent', { target_session_id: id });
+
+      if (error) {
+        console.error(`[SessionService] Error releasing session ${id}:`, error);
+        return false;
+      }
+      if (data) {
+        realtimeSyncService.announceQueueChange();
+        // RLS hides the session from us from now on, so realtime will not tell us it left
+        if (this.activeSessions.delete(id)) {
+          this.notifyListeners();
+        }
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in releaseSession ${id}:`, error);
+      return false;
+    }
+  }
+
+  async transferSession(id: string, agentId: string, note: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('transfer_session_agent', {
+        target_session_id: id,
+        new_agent_id: agentId,
+        note
+      });
+
+      if (error) {
+        console.error(`[SessionService] Error transferring session ${id}:`, error);
+        return false;
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in transferSession ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Only the assigned agent can bring in an observer
+  async inviteObserver(id: string, agentId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('invite_session_observer', { target_session_id: id, observer_id: agentId });
+
+      if (error) {
+        console.error(`[SessionService] Error inviting an observer to session ${id}:`, error);
+        return false;
+      }
+      if (data) {
+        realtimeSyncService.announceQueueChange();
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in inviteObserver ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Observers can read the transcript and chat but cannot send anything. Opening a session needs an invite
+  async observeSession(id: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('observe_session', { target_session_id: id });
+
+      if (error) {
+        console.error(`[SessionService] Error observing session ${id}:`, error);
+        return false;
+      }
+      if (data) {
+        // Observing is what makes the session visible to us
+        await this.cacheSessionFromDb(id);
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in observeSession ${id}:`, error);
+      return false;
+    }
+  }
+
+  async stopObservingSession(id: string): Promise<void> {
+    const { error } = await supabase.rpc('stop_observing_session', { target_session_id: id });
+    if (error) {
+      console.error(`[SessionService] Error leaving session ${id} as observer:`, error);
+    }
+  }
+
+  // Agents triage the sessions they handle. A released session goes back into the queue at this priority
+  async setSessionPriority(id: string, priority: SessionPriority): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('set_session_priority', { target_session_id: id, new_priority: priority });
+
+      if (error) {
+        console.error(`[SessionService] Error setting priority of session ${id}:`, error);
+        return false;
+      }
+      if (data) {
+        const session = this.activeSessions.get(id);
+        if (session) {
+          session.priority = priority;
+          this.notifyListeners();
+        }
+      }
+      return data;
+    } catch (error) {
+      console.error(`[SessionService] Error in setSessionPriority ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Issue a new join code for the user's own waiting session, replacing any earlier one
+  async createJoinCode(id: string): Promise<SessionJoinCode | null> {
+    try {
+      const { data, error } = await supabase.rpc('create_session_join_code', { target_session_id: id });
+
+      if (error) {
+        console.error(`[SessionService] Error creating join code for session ${id}:`, error);
+        return null;
+      }
+      if (!data || data.length === 0) {
+        return null;
+      }
+
+      return { code: data[0].code, expiresAt: new Date(data[0].expires_at) };
+    } catch (error) {
+      console.error(`[SessionService] Error in createJoinCode ${id}:`, error);
+      return null;
+    }
+  }
+
+  async revokeJoinCode(id: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_session_join_code', { target_session_id: id });
+    if (error) {
+      console.error(`[SessionService] Error revoking join code for session ${id}:`, error);
+    }
+  }
+
+  // Claim the session behind a join code. Undefined if the code is unknown, expired or already used
+  async joinSessionByCode(code: string): Promise<Session | undefined> {
+    try {
+      const { data, error } = await supabase.rpc('redeem_session_join_code', { join_code: code });
+
+      if (error) {
+        console.error('[SessionService] Error redeeming join code:', error);
+        return undefined;
+      }
+      if (!data) {
+        return undefined;
+      }
+
+      realtimeSyncService.announceQueueChange();
+      return await this.cacheSessionFromDb(data);
+    } catch (error) {
+      console.error('[SessionService] Error in joinSessionByCode:', error);
+      return undefined;
+    }
+  }
+
+  // Claim the next waiting session in queue order. Undefined if nobody is waiting
+  async claimNextSession(): Promise<Session | undefined> {
+    try {
+      const { data, error } = await supabase.rpc('claim_next_session');
+
+      if (error) {
+        console.error('[SessionService] Error claiming the next session:', error);
+        return undefined;
+      }
+      if (!data) {
+        return undefined;
+      }
+
+      realtimeSyncService.announceQueueChange();
+      return await this.cacheSessionFromDb(data);
+    } catch (error) {
+      console.error('[SessionService] Error in claimNextSession:', error);
+      return undefined;
+    }
+  }
+
+  // Highest priority first. Empty if nobody is waiting or the summary could not be read
+  async getWaitingSummary(): Promise<WaitingSummary[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_waiting_summary');
+
+      if (error) {
+        console.error('[SessionService] Error fetching the waiting summary:', error);
+        return [];
+      }
+
+      return (data ?? []).map(row => ({
+        priority: row.priority as SessionPriority,
+        waitingCount: row.waiting_count,
+        oldestQueuedAt: new Date(row.oldest_queued_at)
+      }));
+    } catch (error) {
+      console.error('[SessionService] Error in getWaitingSummary:', error);
+      return [];
+    }
+  }
+
+  // Null once an agent has picked the session up, or if the status could not be read
+  async getQueueStatus(id: string): Promise<QueueStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_queue_status', { target_session_id: id });
+
+      if (error) {
+        console.error(`[SessionService] Error fetching queue status of session ${id}:`, error);
+        return null;
+      }
+      if (!data || data.length === 0) {
+        return null;
+      }
+
+      return {
+        position: data[0].queue_position,
+        waitingCount: data[0].waiting_count,
+        estimatedWaitSeconds: data[0].estimated_wait_seconds
+      };
+    } catch (error) {
+      console.error(`[SessionService] Error in getQueueStatus ${id}:`, error);
+      return null;
+    }
+  }
+
+  // Everyone a session can be transferred to, except the current user
+  async getSupportAgents(): Promise<SupportAgent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, display_name, email')
+        .eq('role', 'support_agent')
+        .order('display_name', { ascending: true });
+
+      if (error) {
+        console.error('[SessionService] Error fetching support agents:', error);
+        return [];
+      }
+
+      const userId = authService.getState().user?.id;
+      return (data ?? [])
+        .filter(agent => agent.id !== userId)
+        .map(agent => ({ id: agent.id, name: agent.display_name || agent.email }));
+    } catch (error) {
+      console.error('[SessionService] Error in getSupportAgents:', error);
+      return [];
+    }
+  }
+
+  async createSession(
+    name: string,
+    user: string,
+    device: string,
+    priority: SessionPriority = DEFAULT_SESSION_PRIORITY,
+    deviceType: string | null = null
+  ): Promise<Session> {
     console.log(`[SessionService] Creating new session: ${name}`);
 
     try {
@@ -139,6 +744,8 @@ class SessionService {
             name,
             user_name: user,
             device,
+            device_type: deviceType,
+            priority,
             start_time: new Date().toISOString(),
             last_active: new Date().toISOString(),
             is_active: true
@@ -160,17 +767,12 @@ class SessionService {
         throw new Error('No data returned from session creation');
       }
 
-      const newSession = new SessionImpl(
-        data[0].id,
-        data[0].name,
-        data[0].user_name,
-        data[0].device,
-        new Date(data[0].start_time)
-      );
+      const newSession = toSession(data[0]);
 
       // Add to local cache
       this.activeSessions.set(newSession.id, newSession);
       console.log(`[SessionService] Session created with ID: ${newSession.id}`);
+      realtimeSyncService.announceQueueChange();
 
       // Notify listeners
       setTimeout(() => this.notifyListeners(), 0);
@@ -211,13 +813,7 @@ class SessionService {
         return undefined;
       }
 
-      const session = new SessionImpl(
-        data.id,
-        data.name,
-        data.user_name,
-        data.device,
-        new Date(data.start_time)
-      );
+      const session = toSession(data);
 
       // Add to local cache
       this.activeSessions.set(id, session);
@@ -229,6 +825,26 @@ class SessionService {
     }
   }
 
+  // Load a session that just became visible to us, without waiting for the next full fetch
+  private async cacheSessionFromDb(id: string): Promise<Session | undefined> {
+    const { data, error } = await supabase
+      .from('remote_sessions')
+      .select('*')
+      .eq('id', id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error(`[SessionService] Could not load session ${id}:`, error);
+      return undefined;
+    }
+
+    const session = toSession(data);
+    this.activeSessions.set(id, session);
+    this.notifyListeners();
+    return session;
+  }
+
   async getAllSessions(): Promise<Session[]> {
     // First refresh from DB to make sure we have the latest data
     await this.fetchSessionsFromDb();
@@ -242,34 +858,28 @@ class SessionService {
     console.log(`[SessionService] Attempting to close session: ${id}`);
 
     try {
-      // First delete all commands associated with this session
-      const { error: commandsError } = await supabase
-        .from('session_commands')
-        .delete()
-        .eq('session_id', id);
-
-      if (commandsError) {
-        console.error(`[SessionService] Error deleting commands for session ${id}:`, commandsError);
-        // Continue with session deletion even if command deletion fails
-      } else {
-        console.log(`[SessionService] Deleted all commands for session ${id}`);
-      }
-
-      // Mark session as inactive in the database
-      const { error } = await supabase
+      // Mark session as inactive in the database. Its transcript stays, see SessionHistoryService
+      const { data, error } = await supabase
         .from('remote_sessions')
         .update({ is_active: false })
-        .eq('id', id);
+        .eq('id', id)
+        .select('id');
 
       if (error) {
         console.error(`[SessionService] Error closing session ${id}:`, error);
         return false;
       }
 
-      // Remove from local cache
-      const result = this.activeSessions.delete(id);
+      // RLS filters out rows we may not update without raising an error, so no row means nothing closed
+      if (!data || data.length === 0) {
+        console.warn(`[SessionService] Session ${id} was not closed - it is not ours to close`);
+        return false;
+      }
+
+      realtimeSyncService.announceQueueChange();
 
-      if (result) {
+      // Remove from local cache
+      if (this.activeSessions.delete(id)) {
         console.log(`[SessionService] Session closed: ${id}`);
 
         // Notify listeners
@@ -278,7 +888,7 @@ class SessionService {
         console.log(`[SessionService] Session not found in local cache: ${id}`);
       }
 
-      return result;
+      return true;
     } catch (error) {
       console.error(`[SessionService] Error in closeSession ${id}:`, error);
       return false;
@@ -300,6 +910,26 @@ class SessionService {
     console.log(`[SessionService] Removed listener (${initialCount} → ${this.listeners.length})`);
   }
 
+  // Sessions we could see that ended elsewhere: stopped by the user, closed by an agent or timed out
+  addSessionEndedListener(callback: (session: Session, reason: SessionEndReason) => void): void {
+    this.sessionEndedListeners.push(callback);
+  }
+
+  removeSessionEndedListener(callback: (session: Session, reason: SessionEndReason) => void): void {
+    this.sessionEndedListeners = this.sessionEndedListeners.filter(listener => listener !== callback);
+  }
+
+  private notifySessionEndedListeners(session: Session, reason: SessionEndReason): void {
+    console.log(`[SessionService] Session ${session.id} ended: ${reason}`);
+    this.sessionEndedListeners.forEach(listener => {
+      try {
+        listener(session, reason);
+      } catch (error) {
+        console.error("[SessionService] Error in session ended listener:", error);
+      }
+    });
+  }
+
   private notifyListeners(): void {
     const sessions = Array.from(this.activeSessions.values());
     console.log(`[SessionService] Notifying ${this.listeners.length} listeners with ${sessions.length} sessions`);
@@ -318,10 +948,11 @@ class SessionService {
 
   // Clean up when service is destroyed
   destroy(): void {
-    if (this.updateIntervalId !== null) {
-      clearInterval(this.updateIntervalId);
-      this.updateIntervalId = null;
+    if (this.heartbeatIntervalId !== null) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = null;
     }
+    realtimeSyncService.removeSessionsListener(this.handleSessionsChange);
   }
 
   // Force refresh from database (useful for manual refresh)
@@ -0,0 +1,90 @@
+// Registry of BLE serial transport profiles
+// Each profile describes where a module exposes its UART bridge so connectToDevice can probe them in turn
+
+export type GattWriteMode = 'with-response' | 'without-response';
+
+export interface TransportProfile {
+  id: string;
+  name: string;
+  serviceUuid: string;
+  // Characteristic we write commands to (RX from the module's point of view)
+  writeCharacteristicUuid: string;
+  // Characteristic the module notifies incoming data on (TX from the module's point of view)
+  notifyCharacteristicUuid: string;
+  writeMode: GattWriteMode;
+  // Largest payload written in one GATT operation, defaults to 20 bytes (the minimum BLE MTU)
+  maxChunkSize?: number;
+}
+
+// Services we ask for alongside the serial profiles when requesting a device
+const AUXILIARY_SERVICES = [
+  '0000180a-0000-1000-8000-00805f9b34fb', // Device Information Service
+  '0000180f-0000-1000-8000-00805f9b34fb'  // Battery Service
+];
+
+// Ordered by how common the module is in our fleet - the first profile whose service is found wins
+const transportProfiles: TransportProfile[] = [
+  {
+    // HM-10 and its clones, also used by most HC-05/HC-06 BLE adapters
+    id: 'hm10',
+    name: 'HM-10 / HC-05 / HC-06',
+    serviceUuid: '0000ffe0-0000-1000-8000-00805f9b34fb',
+    writeCharacteristicUuid: '0000ffe1-0000-1000-8000-00805f9b34fb',
+    notifyCharacteristicUuid: '0000ffe1-0000-1000-8000-00805f9b34fb',
+    writeMode: 'without-response'
+  },
+  {
+    id: 'nordic-uart',
+    name: 'Nordic UART Service',
+    serviceUuid: '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
+    writeCharacteristicUuid: '6e400002-b5a3-f393-e0a9-e50e24dcca9e',
+    notifyCharacteristicUuid: '6e400003-b5a3-f393-e0a9-e50e24dcca9e',
+    writeMode: 'without-response'
+  },
+  {
+    // Transparent UART service on RN4870/RN4871 and BM70/BM71
+    id: 'microchip-rn4870',
+    name: 'Microchip RN4870 Transparent UART',
+    serviceUuid: '49535343-fe7d-4ae5-8fa9-9fafd205e455',
+    writeCharacteristicUuid: '49535343-8841-43f4-a8d4-ecbe34729bb3',
+    notifyCharacteristicUuid: '49535343-1e4d-4bd9-ba61-23c647249616',
+    writeMode: 'with-response'
+  },
+  {
+    // TI "Serial Port over BLE" sample profile for CC2540/CC2541
+    id: 'ti-cc254x',
+    name: 'TI CC254x Serial Port',
+    serviceUuid: 'f000c0e0-0451-4000-b000-000000000000',
+    writeCharacteristicUuid: 'f000c0e1-0451-4000-b000-000000000000',
+    notifyCharacteristicUuid: 'f000c0e1-0451-4000-b000-000000000000',
+    writeMode: 'without-response'
+  }
+];
+
+export function getTransportProfiles(): TransportProfile[] {
+  return [...transportProfiles];
+}
+
+export function getTransportProfile(id: string): TransportProfile | undefined {
+  return transportProfiles.find(profile => profile.id === id);
+}
+
+// Add or replace a profile. New profiles are probed after the built-in ones unless prepend is set
+export function registerTransportProfile(profile: TransportProfile, prepend = false): void {
+  const existingIndex = transportProfiles.findIndex(p => p.id === profile.id);
+  if (existingIndex !== -1) {
+    transportProfiles.splice(existingIndex, 1);
+  }
+
+  if (prepend) {
+    transportProfiles.unshift(profile);
+  } else {
+    transportProfiles.push(profile);
+  }
+}
+
+// All services that must be listed in requestDevice's optionalServices so the profiles can be probed
+export function getOptionalServiceUuids(): string[] {
+  const uuids = transportProfiles.map(profile => profile.serviceUuid);
+  return Array.from(new Set([...uuids, ...AUXILIARY_SERVICES]));
+}
@@ -0,0 +1,301 @@
+// USB-UART adapters over Web Serial
+// Owns the open port and its read loop, and waits for the adapter to come back when the cable is pulled
+
+import { DeviceInfo, DeviceTransportBase, parseDeviceError } from './DeviceTransport';
+
+export interface SerialConfig {
+  baudRate: number;
+  dataBits: number;
+  stopBits: number;
+  parity: "none" | "even" | "odd";
+  flowControl: "none" | "hardware";
+}
+
+// A USB adapter can't be reconnected to, we can only wait for it to be plugged back in
+const USB_RECONNECT_TIMEOUT_MS = 60000;
+
+export function isWebSerialAvailable(): boolean {
+  return typeof navigator !== 'undefined' && navigator.serial !== undefined && window.isSecureContext;
+}
+
+// The usual shorthand for serial settings, e.g. "115200 8N1"
+export function formatSerialConfig(config: SerialConfig): string {
+  return `${config.baudRate} ${config.dataBits}${config.parity.charAt(0).toUpperCase()}${config.stopBits}`;
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(4, '0');
+}
+
+// Browsers don't expose a port name, only the adapter's USB ids
+function getSerialPortName(port: SerialPort): string {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  return usbVendorId !== undefined
+    ? `USB Serial (${toHex(usbVendorId)}:${toHex(usbProductId ?? 0)})`
+    : "USB Serial Port";
+}
+
+function getSerialPortId(port: SerialPort): string {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  return `usb-${usbVendorId ?? 'unknown'}-${usbProductId ?? 'unknown'}`;
+}
+
+// Same adapter, even if the browser handed out a new SerialPort after it was plugged back in
+function isSameSerialPort(a: SerialPort, b: SerialPort): boolean {
+  if (a === b) return true;
+
+  const infoA = a.getInfo();
+  const infoB = b.getInfo();
+  return infoA.usbVendorId !== undefined &&
+    infoA.usbVendorId === infoB.usbVendorId &&
+    infoA.usbProductId === infoB.usbProductId;
+}
+
+class WebSerialTransport extends DeviceTransportBase {
+  readonly kind = 'usb' as const;
+  private serialConfig: SerialConfig = {
+    baudRate: 9600,
+    dataBits: 8,
+    stopBits: 1,
+    parity: "none",
+    flowControl: "none"
+  };
+  private port: SerialPort | null = null;
+  // The last port we opened, to recognise the adapter when it is plugged back in
+  private lastPort: SerialPort | null = null;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private readLoop: Promise<void> | null = null;
+  private isClosing = false;
+  private reconnectTimeoutId: number | null = null;
+
+  // Open a USB-UART adapter with the current serial config. Without a known deviceId the browser's picker is shown
+  async connect(deviceId?: string): Promise<void> {
+    if (!isWebSerialAvailable()) {
+      throw parseDeviceError(new Error("Web Serial API is not available in this browser/environment"));
+    }
+
+    try {
+      const selectedPort = await this.findPort(deviceId);
+
+      console.log(`Opening serial port: ${getSerialPortName(selectedPort)}`);
+      this.cancelReconnect();
+      this.setConnectionState('connecting');
+
+      try {
+        // A port that is still open, even the same one, can't be opened again
+        await this.closePort(this.getUnclosedPort());
+        await this.openPort(selectedPort);
+      } catch (error) {
+        console.error("Error opening serial port:", error);
+        throw new Error("Failed to open serial port");
+      }
+
+      // Watch for the adapter coming back after it was unplugged
+      navigator.serial.removeEventListener('connect', this.handleSerialPortConnected);
+      navigator.serial.addEventListener('connect', this.handleSerialPortConnected);
+
+      this.setConnectionState('connected');
+      console.log(`Successfully connected to ${getSerialPortName(selectedPort)}`);
+    } catch (error) {
+      this.setConnectionState('disconnected');
+      console.error("Error connecting to serial port:", error);
+      throw parseDeviceError(error);
+    }
+  }
+
+  private async findPort(deviceId?: string): Promise<SerialPort> {
+    if (deviceId) {
+      // Ports the user already picked come back from getPorts, also after a replug
+      const ports = await navigator.serial.getPorts();
+      const knownPort = ports.find(port => getSerialPortId(port) === deviceId);
+      if (knownPort) return knownPort;
+    }
+
+    return navigator.serial.requestPort();
+  }
+
+  private async openPort(port: SerialPort): Promise<void> {
+    await port.open({
+      baudRate: this.serialConfig.baudRate,
+      dataBits: this.serialConfig.dataBits,
+      stopBits: this.serialConfig.stopBits,
+      parity: this.serialConfig.parity,
+      flowControl: this.serialConfig.flowControl
+    });
+
+    this.port = port;
+    this.lastPort = port;
+    this.isClosing = false;
+    this.readLoop = this.read(port);
+    console.log(`Opened ${getSerialPortName(port)} at ${formatSerialConfig(this.serialConfig)}`);
+  }
+
+  private async read(port: SerialPort): Promise<void> {
+    // Framing, parity and overrun errors replace port.readable and we keep reading.
+    // A lost device leaves it null, which ends the loop
+    while (port.readable && !this.isClosing) {
+      const reader = port.readable.getReader();
+      this.reader = reader;
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          if (value) this.notifyDataListeners(value);
+        }
+      } catch (error) {
+        console.warn("Serial read error:", error);
+      } finally {
+        reader.releaseLock();
+        this.reader = null;
+      }
+    }
+
+    if (!this.isClosing && this.port === port) {
+      this.port = null;
+      this.handlePortLost();
+    }
+  }
+
+  // The open port, or the one that was lost. The browser keeps a lost port open until it is closed
+  private getUnclosedPort(): SerialPort | null {
+    return this.port ?? (this.connectionState === 'reconnecting' ? this.lastPort : null);
+  }
+
+  // A port only closes once its reader and writer have let go of its streams
+  private async closePort(port: SerialPort | null = this.port): Promise<void> {
+    if (!port) return;
+
+    this.isClosing = true;
+    try {
+      this.writer?.releaseLock();
+      await this.reader?.cancel();
+      await this.readLoop;
+      await port.close();
+    } catch (error) {
+      console.warn("Error closing serial port:", error);
+    } finally {
+      if (this.port === port) {
+        this.port = null;
+      }
+      this.writer = null;
+      this.readLoop = null;
+    }
+  }
+
+  // The read loop ended without us closing the port - the cable was pulled or the adapter reset
+  private handlePortLost(): void {
+    if (this.connectionState !== 'connected') {
+      return;
+    }
+
+    console.warn(`Serial port lost, waiting ${USB_RECONNECT_TIMEOUT_MS}ms for it to be plugged back in`);
+    this.setConnectionState('reconnecting');
+
+    this.reconnectTimeoutId = window.setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      console.error("Serial port did not come back, giving up");
+      this.setConnectionState('disconnected');
+    }, USB_RECONNECT_TIMEOUT_MS);
+  }
+
+  private handleSerialPortConnected = async (event: Event): Promise<void> => {
+    const port = event.target as SerialPort;
+
+    if (this.connectionState !== 'reconnecting' || !this.lastPort || !isSameSerialPort(port, this.lastPort)) {
+      return;
+    }
+
+    try {
+      await this.closePort(this.lastPort);
+      await this.openPort(port);
+
+      // The user may have disconnected manually while the port was opening
+      if (this.connectionState !== 'reconnecting') {
+        await this.closePort();
+        return;
+      }
+
+      this.cancelReconnect();
+      this.setConnectionState('connected');
+      console.log(`Serial port ${getSerialPortName(port)} is back`);
+    } catch (error) {
+      console.warn("Could not reopen serial port after it was plugged back in:", error);
+    }
+  };
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimeoutId !== null) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+  }
+
+  // Web Serial streams handle their own buffering, so the whole line goes in one write
+  async write(data: Uint8Array): Promise<void> {
+    const writable = this.port?.writable;
+    if (!writable) {
+      throw new Error("Serial port is not open");
+    }
+
+    const writer = writable.getWriter();
+    this.writer = writer;
+    try {
+      await writer.write(data);
+    } finally {
+      // closePort may have released it already
+      writer.releaseLock();
+      if (this.writer === writer) {
+        this.writer = null;
+      }
+    }
+  }
+
+  disconnect(): void {
+    console.log("Closing serial port");
+    this.cancelReconnect();
+    navigator.serial?.removeEventListener('connect', this.handleSerialPortConnected);
+    this.closePort();
+    this.setConnectionState('disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.connectionState === 'connected' && this.port !== null && this.port.writable !== null;
+  }
+
+  getDevice(): DeviceInfo | null {
+    if (this.connectionState === 'disconnected' || !this.lastPort) return null;
+
+    return {
+      id: getSerialPortId(this.lastPort),
+      name: getSerialPortName(this.lastPort),
+      transport: 'usb',
+      detail: `USB serial ${formatSerialConfig(this.serialConfig)}`
+    };
+  }
+
+  // An open port is reopened so new settings take effect right away
+  async setSerialConfig(config: SerialConfig): Promise<void> {
+    this.serialConfig = config;
+    console.log("Serial config updated:", config);
+
+    const port = this.port;
+    if (!port) return;
+
+    await this.closePort();
+    try {
+      await this.openPort(port);
+    } catch (error) {
+      console.error("Error reopening serial port with the new config:", error);
+      this.disconnect();
+      throw parseDeviceError(new Error("Failed to open serial port"));
+    }
+  }
+
+  getSerialConfig(): SerialConfig {
+    return this.serialConfig;
+  }
+}
+
+const webSerialTransport = new WebSerialTransport();
+export default webSerialTransport;
@@ -5,6 +5,9 @@ export interface Session {
   user: string;
   device: string;
   startTime: Date;
+  deviceState: string;
+  ownerId: string | null;
+  assignedAgentId: string | null;
   
   getDuration(): number;
   getFormattedDuration(): string;
@@ -15,8 +18,11 @@ export interface DatabaseSession {
   name: string;
   user_name: string;
   device: string;
+  device_state: string;
   start_time: string;
   last_active: string;
   is_active: boolean;
+  owner_id: string | null;
+  assigned_agent_id: string | null;
   created_at: string;
 }
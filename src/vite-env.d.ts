@@ -22,6 +22,8 @@ interface BluetoothRemoteGATTCharacteristic {
   getDescriptors(descriptor?: BluetoothDescriptorUUID): Promise<BluetoothRemoteGATTDescriptor[]>;
   readValue(): Promise<DataView>;
   writeValue(value: BufferSource): Promise<void>;
+  writeValueWithResponse(value: BufferSource): Promise<void>;
+  writeValueWithoutResponse(value: BufferSource): Promise<void>;
   startNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
   stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
   addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
@@ -91,7 +93,41 @@ interface Bluetooth {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
+// Web Serial API type declarations
+interface SerialPortInfo {
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+interface SerialOptions {
+  baudRate: number;
+  dataBits?: number;
+  stopBits?: number;
+  parity?: "none" | "even" | "odd";
+  bufferSize?: number;
+  flowControl?: "none" | "hardware";
+}
+
+interface SerialPortRequestOptions {
+  filters?: SerialPortInfo[];
+}
+
+interface SerialPort extends EventTarget {
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+
+  open(options: SerialOptions): Promise<void>;
+  close(): Promise<void>;
+  getInfo(): SerialPortInfo;
+}
+
+interface Serial extends EventTarget {
+  getPorts(): Promise<SerialPort[]>;
+  requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
+}
+
 interface Navigator {
   bluetooth: Bluetooth;
+  serial: Serial;
 }
 
@@ -0,0 +1,4 @@
+-- Link state reported by the user's client so support can see BLE drops and reconnects
+alter table public.remote_sessions
+  add column if not exists device_state text not null default 'connected'
+  check (device_state in ('disconnected', 'connecting', 'connected', 'reconnecting'));
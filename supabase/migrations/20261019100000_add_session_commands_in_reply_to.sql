@@ -0,0 +1,7 @@
+-- Links a device response line to the command it answers.
+-- No foreign key: the response can be inserted before the command's own insert has committed.
+alter table public.session_commands
+  add column if not exists in_reply_to uuid null;
+
+create index if not exists session_commands_in_reply_to_idx
+  on public.session_commands (in_reply_to);
@@ -0,0 +1,14 @@
+-- Parsed AT+CFG output captured during a session, so support can compare the
+-- device configuration before and after their changes.
+create table if not exists public.session_config_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.remote_sessions (id) on delete cascade,
+  config jsonb not null,
+  captured_by text not null default 'user',
+  captured_at timestamptz not null default now()
+);
+
+create index if not exists session_config_snapshots_session_id_idx
+  on public.session_config_snapshots (session_id, captured_at);
+
+alter publication supabase_realtime add table public.session_config_snapshots;
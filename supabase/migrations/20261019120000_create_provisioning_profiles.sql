@@ -0,0 +1,15 @@
+-- Named MQTT configurations that can be applied to a device in one step.
+create table if not exists public.provisioning_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  payload_type text not null default '0' check (payload_type in ('0', '5')),
+  host text not null,
+  port integer not null check (port between 1 and 65535),
+  client_id text not null,
+  username text not null,
+  password text not null,
+  pub_topic text not null,
+  sub_topic text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
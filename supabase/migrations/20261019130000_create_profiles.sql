@@ -0,0 +1,57 @@
+-- One profile per auth user, holding the role that decides which views they can open.
+-- Everyone signs up as a device_user; support agents are promoted by an admin, e.g.
+--   update public.profiles set role = 'support_agent' where email = 'agent@example.com';
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  display_name text null,
+  role text not null default 'device_user' check (role in ('device_user', 'support_agent')),
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+-- Role lookups used by policies; security definer so it can read profiles under RLS
+create or replace function public.is_support_agent()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles where id = auth.uid() and role = 'support_agent'
+  );
+$$;
+
+create policy "Users can read their own profile"
+  on public.profiles for select
+  using (id = auth.uid());
+
+create policy "Support agents can read all profiles"
+  on public.profiles for select
+  using (public.is_support_agent());
+
+-- Users may change their display name but never their role
+create policy "Users can update their own profile"
+  on public.profiles for update
+  using (id = auth.uid())
+  with check (id = auth.uid() and role = (select p.role from public.profiles p where p.id = auth.uid()));
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, display_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'display_name');
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
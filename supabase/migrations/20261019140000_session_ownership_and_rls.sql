@@ -0,0 +1,159 @@
+-- Sessions belong to the user who shared them and, once picked up, to one support agent.
+-- Only those two may read or write a session and its transcript.
+
+-- owner_id stays nullable for sessions created before sign-in existed; no policy matches them,
+-- so they are no longer visible to anyone
+alter table public.remote_sessions
+  add column if not exists owner_id uuid null default auth.uid() references auth.users (id) on delete cascade,
+  add column if not exists assigned_agent_id uuid null references auth.users (id) on delete set null;
+
+create index if not exists remote_sessions_owner_id_idx on public.remote_sessions (owner_id);
+create index if not exists remote_sessions_assigned_agent_id_idx on public.remote_sessions (assigned_agent_id);
+
+-- Who wrote the row; sender is derived from this by the trigger below
+alter table public.session_commands
+  add column if not exists sender_id uuid null default auth.uid() references auth.users (id) on delete set null;
+
+create or replace function public.can_access_session(target_session_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.remote_sessions
+    where id = target_session_id
+      and (owner_id = auth.uid() or assigned_agent_id = auth.uid())
+  );
+$$;
+
+-- Support agents pick up a waiting session by assigning themselves. Returns false if another agent has it
+create or replace function public.assign_session_agent(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can be assigned to a session';
+  end if;
+
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid()
+  where id = target_session_id
+    and is_active
+    and (assigned_agent_id is null or assigned_agent_id = auth.uid());
+
+  return found;
+end;
+$$;
+
+-- Never trust the sender from the client: the owner writes 'user' or 'device' rows, the agent writes 'support'
+create or replace function public.set_session_command_sender()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.remote_sessions%rowtype;
+begin
+  select * into target from public.remote_sessions where id = new.session_id;
+
+  new.sender_id := auth.uid();
+  if target.owner_id = auth.uid() then
+    new.sender := case when new.sender = 'device' then 'device' else 'user' end;
+  elsif target.assigned_agent_id = auth.uid() then
+    new.sender := 'support';
+  else
+    raise exception 'Not allowed to write to session %', new.session_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_session_command_sender on public.session_commands;
+create trigger set_session_command_sender
+  before insert on public.session_commands
+  for each row execute function public.set_session_command_sender();
+
+-- remote_sessions
+alter table public.remote_sessions enable row level security;
+
+create policy "Owners and assigned agents can read sessions"
+  on public.remote_sessions for select
+  using (owner_id = auth.uid() or assigned_agent_id = auth.uid());
+
+-- Agents see the waiting queue so they can pick a session up
+create policy "Support agents can read unassigned sessions"
+  on public.remote_sessions for select
+  using (is_active and assigned_agent_id is null and public.is_support_agent());
+
+create policy "Users can create their own sessions"
+  on public.remote_sessions for insert
+  with check (owner_id = auth.uid() and assigned_agent_id is null);
+
+create policy "Owners can update their sessions"
+  on public.remote_sessions for update
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+-- Lets the agent end a session from the support dashboard
+create policy "Assigned agents can update their sessions"
+  on public.remote_sessions for update
+  using (assigned_agent_id = auth.uid())
+  with check (assigned_agent_id = auth.uid());
+
+-- Ownership never changes once a session exists
+create or replace function public.keep_session_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.owner_id := old.owner_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists keep_session_owner on public.remote_sessions;
+create trigger keep_session_owner
+  before update on public.remote_sessions
+  for each row execute function public.keep_session_owner();
+
+-- session_commands
+alter table public.session_commands enable row level security;
+
+create policy "Session participants can read commands"
+  on public.session_commands for select
+  using (public.can_access_session(session_id));
+
+create policy "Session participants can add commands"
+  on public.session_commands for insert
+  with check (public.can_access_session(session_id));
+
+create policy "Session participants can clear the transcript"
+  on public.session_commands for delete
+  using (public.can_access_session(session_id));
+
+-- session_config_snapshots
+alter table public.session_config_snapshots enable row level security;
+
+create policy "Session participants can read config snapshots"
+  on public.session_config_snapshots for select
+  using (public.can_access_session(session_id));
+
+create policy "Session participants can add config snapshots"
+  on public.session_config_snapshots for insert
+  with check (public.can_access_session(session_id));
+
+-- provisioning_profiles hold broker credentials, so keep them away from the anon key
+alter table public.provisioning_profiles enable row level security;
+
+create policy "Signed-in users can manage provisioning profiles"
+  on public.provisioning_profiles for all
+  to authenticated
+  using (true)
+  with check (true);
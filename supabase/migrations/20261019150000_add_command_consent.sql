@@ -0,0 +1,30 @@
+-- Per-session control policy chosen by the user, and the user's decision on each support command.
+alter table public.remote_sessions
+  add column if not exists control_policy text not null default 'always-ask'
+    check (control_policy in ('always-ask', 'read-only', 'full-control'));
+
+alter table public.session_commands
+  add column if not exists consent text null
+    check (consent in ('auto-approved', 'approved', 'denied', 'expired')),
+  add column if not exists consent_at timestamptz null;
+
+-- Only the session owner records a decision, only once, and only on support commands
+create or replace function public.record_command_consent(command_id uuid, decision text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.session_commands c
+  set consent = decision, consent_at = now()
+  from public.remote_sessions s
+  where c.id = command_id
+    and c.session_id = s.id
+    and s.owner_id = auth.uid()
+    and c.sender = 'support'
+    and c.consent is null;
+
+  return found;
+end;
+$$;
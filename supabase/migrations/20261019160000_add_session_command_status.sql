@@ -0,0 +1,62 @@
+-- Lifecycle of a support command as reported by the user's client:
+--   queued -> delivered (picked up) -> executed (device answered OK) or failed
+-- Rows written by the user or the device have no status.
+alter table public.session_commands
+  add column if not exists status text null
+    check (status in ('queued', 'delivered', 'executed', 'failed')),
+  add column if not exists status_detail text null,
+  add column if not exists status_at timestamptz null;
+
+create index if not exists session_commands_status_idx
+  on public.session_commands (session_id, status);
+
+create or replace function public.set_session_command_sender()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.remote_sessions%rowtype;
+begin
+  select * into target from public.remote_sessions where id = new.session_id;
+
+  new.sender_id := auth.uid();
+  if target.owner_id = auth.uid() then
+    new.sender := case when new.sender = 'device' then 'device' else 'user' end;
+    new.status := null;
+  elsif target.assigned_agent_id = auth.uid() then
+    new.sender := 'support';
+    new.status := 'queued';
+    new.status_at := now();
+  else
+    raise exception 'Not allowed to write to session %', new.session_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Only the session owner's client reports progress, and a status never moves backwards
+create or replace function public.update_command_status(command_id uuid, new_status text, detail text default null)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.session_commands c
+  set status = new_status, status_detail = detail, status_at = now()
+  from public.remote_sessions s
+  where c.id = command_id
+    and c.session_id = s.id
+    and s.owner_id = auth.uid()
+    and c.sender = 'support'
+    and (
+      (c.status = 'queued' and new_status in ('delivered', 'executed', 'failed'))
+      or (c.status = 'delivered' and new_status in ('executed', 'failed'))
+    );
+
+  return found;
+end;
+$$;
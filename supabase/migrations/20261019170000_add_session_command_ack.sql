@@ -0,0 +1,29 @@
+-- Exactly-once delivery of support commands. The first user client to acknowledge a command
+-- owns it; every other tab, and the same tab after a reload, sees it already acknowledged.
+alter table public.session_commands
+  add column if not exists acked_at timestamptz null,
+  add column if not exists acked_by text null;
+
+-- Returns true only for the client whose acknowledgement won. Also marks the command delivered
+create or replace function public.acknowledge_command(command_id uuid, client_id text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.session_commands c
+  set acked_at = now(),
+      acked_by = client_id,
+      status = 'delivered',
+      status_at = now()
+  from public.remote_sessions s
+  where c.id = command_id
+    and c.session_id = s.id
+    and s.owner_id = auth.uid()
+    and c.sender = 'support'
+    and c.acked_at is null;
+
+  return found;
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Sync cursor for session transcripts. Stamped by the server on every insert and update, so
+-- clients can fetch everything they missed with a single "newer than" query after a reconnect.
+alter table public.session_commands
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.session_commands
+set updated_at = greatest(timestamp, coalesce(status_at, timestamp), coalesce(consent_at, timestamp), coalesce(acked_at, timestamp));
+
+create index if not exists session_commands_session_id_updated_at_idx
+  on public.session_commands (session_id, updated_at, id);
+
+create or replace function public.touch_session_command()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_session_command on public.session_commands;
+create trigger touch_session_command
+  before insert or update on public.session_commands
+  for each row execute function public.touch_session_command();
@@ -0,0 +1,57 @@
+-- Chat between the user and support. Kept out of session_commands on purpose: nothing in this
+-- table is ever sent to the device.
+create table if not exists public.session_messages (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.remote_sessions (id) on delete cascade,
+  sender text not null check (sender in ('user', 'support')),
+  sender_id uuid null,
+  sender_name text not null,
+  body text not null check (char_length(body) between 1 and 2000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_messages_session_id_created_at_idx
+  on public.session_messages (session_id, created_at, id);
+
+-- Same rule as commands: the role comes from the session, not from the client
+create or replace function public.set_session_message_sender()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.remote_sessions%rowtype;
+begin
+  select * into target from public.remote_sessions where id = new.session_id;
+
+  new.sender_id := auth.uid();
+  new.created_at := now();
+  if target.owner_id = auth.uid() then
+    new.sender := 'user';
+  elsif target.assigned_agent_id = auth.uid() then
+    new.sender := 'support';
+  else
+    raise exception 'Not allowed to write to session %', new.session_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_session_message_sender on public.session_messages;
+create trigger set_session_message_sender
+  before insert on public.session_messages
+  for each row execute function public.set_session_message_sender();
+
+alter table public.session_messages enable row level security;
+
+create policy "Session participants can read messages"
+  on public.session_messages for select
+  using (public.can_access_session(session_id));
+
+create policy "Session participants can send messages"
+  on public.session_messages for insert
+  with check (public.can_access_session(session_id));
+
+alter publication supabase_realtime add table public.session_messages;
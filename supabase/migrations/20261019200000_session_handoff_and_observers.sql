@@ -0,0 +1,208 @@
+-- Explicit ownership of a session by one support agent: claim, release and transfer with a note.
+-- Other agents may join as read-only observers, e.g. for training.
+alter table public.remote_sessions
+  add column if not exists assigned_agent_name text null,
+  add column if not exists handoff_note text null,
+  add column if not exists handed_off_by uuid null references auth.users (id) on delete set null,
+  add column if not exists handed_off_at timestamptz null;
+
+create table if not exists public.session_observers (
+  session_id uuid not null references public.remote_sessions (id) on delete cascade,
+  agent_id uuid not null references auth.users (id) on delete cascade,
+  agent_name text not null,
+  joined_at timestamptz not null default now(),
+  primary key (session_id, agent_id)
+);
+
+-- Owner or assigned agent: the two parties who may write to a session
+create or replace function public.is_session_participant(target_session_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.remote_sessions
+    where id = target_session_id
+      and (owner_id = auth.uid() or assigned_agent_id = auth.uid())
+  );
+$$;
+
+-- Read access now includes observers. Writes stay limited to participants through the sender
+-- triggers on commands and messages, and the policies replaced below
+create or replace function public.can_access_session(target_session_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_session_participant(target_session_id)
+    or exists (
+      select 1 from public.session_observers
+      where session_id = target_session_id and agent_id = auth.uid()
+    );
+$$;
+
+drop policy if exists "Session participants can clear the transcript" on public.session_commands;
+create policy "Session participants can clear the transcript"
+  on public.session_commands for delete
+  using (public.is_session_participant(session_id));
+
+drop policy if exists "Session participants can add config snapshots" on public.session_config_snapshots;
+create policy "Session participants can add config snapshots"
+  on public.session_config_snapshots for insert
+  with check (public.is_session_participant(session_id));
+
+-- Agents see every active session so the list can show who handles what
+drop policy if exists "Support agents can read unassigned sessions" on public.remote_sessions;
+create policy "Support agents can read active sessions"
+  on public.remote_sessions for select
+  using (is_active and public.is_support_agent());
+
+alter table public.session_observers enable row level security;
+
+create policy "Session participants can see observers"
+  on public.session_observers for select
+  using (public.can_access_session(session_id));
+
+-- The agent columns only change through the functions below, never through a plain update
+create or replace function public.keep_session_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.owner_id := old.owner_id;
+  if coalesce(current_setting('app.session_handoff', true), '') <> 'on' then
+    new.assigned_agent_id := old.assigned_agent_id;
+    new.assigned_agent_name := old.assigned_agent_name;
+    new.handoff_note := old.handoff_note;
+    new.handed_off_by := old.handed_off_by;
+    new.handed_off_at := old.handed_off_at;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.agent_display_name(agent_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(display_name, email) from public.profiles where id = agent_id;
+$$;
+
+-- Claim a waiting session. Returns false if another agent has it
+create or replace function public.assign_session_agent(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can be assigned to a session';
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid(),
+      assigned_agent_name = public.agent_display_name(auth.uid())
+  where id = target_session_id
+    and is_active
+    and (assigned_agent_id is null or assigned_agent_id = auth.uid());
+
+  if found then
+    -- An observer who claims the session is a participant from now on
+    delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+    return true;
+  end if;
+  return false;
+end;
+$$;
+
+-- Put the session back in the queue
+create or replace function public.release_session_agent(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = null,
+      assigned_agent_name = null
+  where id = target_session_id
+    and assigned_agent_id = auth.uid();
+
+  return found;
+end;
+$$;
+
+-- Hand the session to another agent, leaving them a note
+create or replace function public.transfer_session_agent(target_session_id uuid, new_agent_id uuid, note text default null)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles where id = new_agent_id and role = 'support_agent') then
+    raise exception 'Sessions can only be transferred to a support agent';
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = new_agent_id,
+      assigned_agent_name = public.agent_display_name(new_agent_id),
+      handoff_note = nullif(trim(note), ''),
+      handed_off_by = auth.uid(),
+      handed_off_at = now()
+  where id = target_session_id
+    and is_active
+    and assigned_agent_id = auth.uid();
+
+  if found then
+    delete from public.session_observers where session_id = target_session_id and agent_id = new_agent_id;
+    return true;
+  end if;
+  return false;
+end;
+$$;
+
+-- Join or leave a session as a read-only observer
+create or replace function public.observe_session(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can observe a session';
+  end if;
+
+  insert into public.session_observers (session_id, agent_id, agent_name)
+  select id, auth.uid(), public.agent_display_name(auth.uid())
+  from public.remote_sessions
+  where id = target_session_id
+    and is_active
+    and assigned_agent_id is distinct from auth.uid()
+  on conflict (session_id, agent_id) do nothing;
+
+  return public.can_access_session(target_session_id);
+end;
+$$;
+
+create or replace function public.stop_observing_session(target_session_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+$$;
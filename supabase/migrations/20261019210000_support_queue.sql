@@ -0,0 +1,160 @@
+-- Support queue: sessions waiting for an agent are served by priority, then by how long they have
+-- waited. queued_at restarts when an agent releases a session back into the queue.
+alter table public.remote_sessions
+  add column if not exists priority text not null default 'normal'
+    check (priority in ('low', 'normal', 'high', 'urgent')),
+  add column if not exists device_type text null,
+  add column if not exists queued_at timestamptz not null default now(),
+  add column if not exists claimed_at timestamptz null;
+
+update public.remote_sessions set queued_at = start_time;
+
+create index if not exists remote_sessions_queue_idx
+  on public.remote_sessions (is_active, assigned_agent_id, priority, queued_at);
+
+-- Queue timestamps are as protected as the agent columns, so nobody can jump the queue
+create or replace function public.keep_session_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.owner_id := old.owner_id;
+  if coalesce(current_setting('app.session_handoff', true), '') <> 'on' then
+    new.assigned_agent_id := old.assigned_agent_id;
+    new.assigned_agent_name := old.assigned_agent_name;
+    new.handoff_note := old.handoff_note;
+    new.handed_off_by := old.handed_off_by;
+    new.handed_off_at := old.handed_off_at;
+    new.queued_at := old.queued_at;
+    new.claimed_at := old.claimed_at;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.session_priority_rank(priority text)
+returns integer
+language sql
+immutable
+as $$
+  select case priority
+    when 'urgent' then 3
+    when 'high' then 2
+    when 'normal' then 1
+    else 0
+  end;
+$$;
+
+create or replace function public.assign_session_agent(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can be assigned to a session';
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid(),
+      assigned_agent_name = public.agent_display_name(auth.uid()),
+      claimed_at = coalesce(claimed_at, now())
+  where id = target_session_id
+    and is_active
+    and (assigned_agent_id is null or assigned_agent_id = auth.uid());
+
+  if found then
+    delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+    return true;
+  end if;
+  return false;
+end;
+$$;
+
+create or replace function public.release_session_agent(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = null,
+      assigned_agent_name = null,
+      queued_at = now(),
+      claimed_at = null
+  where id = target_session_id
+    and assigned_agent_id = auth.uid();
+
+  return found;
+end;
+$$;
+
+-- Agents triage the queue; owners set the priority when they share and may change it through their own update policy
+create or replace function public.set_session_priority(target_session_id uuid, new_priority text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can change the priority of a session';
+  end if;
+
+  update public.remote_sessions
+  set priority = new_priority
+  where id = target_session_id
+    and is_active;
+
+  return found;
+end;
+$$;
+
+-- Where the owner's session stands in the queue. Users cannot see other sessions, so this runs as definer
+-- and only reveals counts. The estimate is the average wait of sessions claimed in the last day, per place
+create or replace function public.get_queue_status(target_session_id uuid)
+returns table (queue_position integer, waiting_count integer, estimated_wait_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target public.remote_sessions%rowtype;
+  average_wait double precision;
+begin
+  select * into target from public.remote_sessions
+  where id = target_session_id and owner_id = auth.uid() and is_active;
+
+  if not found or target.assigned_agent_id is not null then
+    return;
+  end if;
+
+  select avg(extract(epoch from (claimed_at - queued_at))) into average_wait
+  from public.remote_sessions
+  where claimed_at is not null
+    and claimed_at > now() - interval '1 day';
+
+  return query
+  select
+    (count(*) filter (
+      where public.session_priority_rank(s.priority) > public.session_priority_rank(target.priority)
+        or (public.session_priority_rank(s.priority) = public.session_priority_rank(target.priority)
+            and s.queued_at < target.queued_at)
+    ) + 1)::integer,
+    count(*)::integer,
+    case when average_wait is null then null
+      else round(average_wait * (count(*) filter (
+        where public.session_priority_rank(s.priority) > public.session_priority_rank(target.priority)
+          or (public.session_priority_rank(s.priority) = public.session_priority_rank(target.priority)
+              and s.queued_at < target.queued_at)
+      ) + 1))::integer
+    end
+  from public.remote_sessions s
+  where s.is_active and s.assigned_agent_id is null;
+end;
+$$;
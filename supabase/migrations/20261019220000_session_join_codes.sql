@@ -0,0 +1,179 @@
+-- Agents attach to a session with a short one-time code the user reads out or shows as a QR code,
+-- instead of picking it from a list of everyone's sessions. One live code per session.
+create table if not exists public.session_join_codes (
+  session_id uuid primary key references public.remote_sessions (id) on delete cascade,
+  code text not null unique,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_join_codes enable row level security;
+
+-- Codes are created, redeemed and revoked through the functions below only
+create policy "Owners can read their join codes"
+  on public.session_join_codes for select
+  using (exists (
+    select 1 from public.remote_sessions
+    where id = session_id and owner_id = auth.uid()
+  ));
+
+-- Agents no longer see waiting sessions. They see what they handle or observe, nothing else
+drop policy if exists "Support agents can read active sessions" on public.remote_sessions;
+drop policy if exists "Owners and assigned agents can read sessions" on public.remote_sessions;
+create policy "Owners, agents and observers can read sessions"
+  on public.remote_sessions for select
+  using (owner_id = auth.uid() or public.can_access_session(id));
+
+-- Issue a fresh code for the owner's session, replacing any earlier one. Codes avoid 0/O and 1/I
+create or replace function public.create_session_join_code(target_session_id uuid)
+returns table (code text, expires_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  random_bytes bytea;
+  new_code text;
+begin
+  if not exists (
+    select 1 from public.remote_sessions
+    where id = target_session_id and owner_id = auth.uid() and is_active and assigned_agent_id is null
+  ) then
+    raise exception 'Join codes can only be created for your own waiting session';
+  end if;
+
+  loop
+    -- The first six bytes of a v4 uuid are fully random; 256 is a multiple of 32, so no bias
+    random_bytes := uuid_send(gen_random_uuid());
+    new_code := '';
+    for i in 0..5 loop
+      new_code := new_code || substr(alphabet, get_byte(random_bytes, i) % 32 + 1, 1);
+    end loop;
+
+    begin
+      insert into public.session_join_codes (session_id, code, expires_at)
+      values (target_session_id, new_code, now() + interval '10 minutes')
+      on conflict (session_id) do update
+        set code = excluded.code, expires_at = excluded.expires_at, created_at = now();
+      exit;
+    exception when unique_violation then
+      -- Another session holds this code, draw again
+      null;
+    end;
+  end loop;
+
+  return query
+  select c.code, c.expires_at from public.session_join_codes c where c.session_id = target_session_id;
+end;
+$$;
+
+create or replace function public.revoke_session_join_code(target_session_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.session_join_codes c
+  using public.remote_sessions s
+  where c.session_id = target_session_id
+    and s.id = c.session_id
+    and s.owner_id = auth.uid();
+$$;
+
+-- Claim the session behind a code. The code is used up on success; returns null if it is unknown,
+-- expired, or the session already has an agent
+create or replace function public.redeem_session_join_code(join_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_session_id uuid;
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can join a session';
+  end if;
+
+  delete from public.session_join_codes c
+  using public.remote_sessions s
+  where c.code = upper(regexp_replace(join_code, '[^A-Za-z0-9]', '', 'g'))
+    and c.expires_at > now()
+    and s.id = c.session_id
+    and s.is_active
+    and s.assigned_agent_id is null
+  returning c.session_id into target_session_id;
+
+  if target_session_id is null then
+    return null;
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid(),
+      assigned_agent_name = public.agent_display_name(auth.uid()),
+      claimed_at = coalesce(claimed_at, now())
+  where id = target_session_id;
+
+  delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+  return target_session_id;
+end;
+$$;
+
+-- Claiming by id is now only for sessions the agent can already see: resuming their own, or
+-- taking over one they observe. Everything else goes through a join code
+create or replace function public.assign_session_agent(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can be assigned to a session';
+  end if;
+
+  if not public.can_access_session(target_session_id) then
+    return false;
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid(),
+      assigned_agent_name = public.agent_display_name(auth.uid()),
+      claimed_at = coalesce(claimed_at, now())
+  where id = target_session_id
+    and is_active
+    and (assigned_agent_id is null or assigned_agent_id = auth.uid());
+
+  if found then
+    delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+    -- A code the user still shows must not let a second agent in
+    delete from public.session_join_codes where session_id = target_session_id;
+    return true;
+  end if;
+  return false;
+end;
+$$;
+
+create or replace function public.set_session_priority(target_session_id uuid, new_priority text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can change the priority of a session';
+  end if;
+
+  update public.remote_sessions
+  set priority = new_priority
+  where id = target_session_id
+    and is_active
+    and public.can_access_session(id);
+
+  return found;
+end;
+$$;
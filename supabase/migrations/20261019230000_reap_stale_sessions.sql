@@ -0,0 +1,75 @@
+-- Sessions end for a reason: the user stopped sharing, the agent closed it, or the user's client stopped
+-- sending its heartbeat (last_active) and the reaper below timed it out.
+alter table public.remote_sessions
+  add column if not exists ended_at timestamptz null,
+  add column if not exists end_reason text null
+    check (end_reason in ('user_ended', 'timed_out', 'agent_closed'));
+
+create index if not exists remote_sessions_last_active_idx
+  on public.remote_sessions (is_active, last_active);
+
+-- Set when a session goes inactive. The reason follows from who ended it, so clients cannot misreport it
+create or replace function public.set_session_end()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.is_active and not new.is_active then
+    new.ended_at := now();
+    new.end_reason := case
+      when auth.uid() is null then coalesce(new.end_reason, 'timed_out')
+      when auth.uid() = old.owner_id then 'user_ended'
+      else 'agent_closed'
+    end;
+  elsif not new.is_active then
+    new.ended_at := old.ended_at;
+    new.end_reason := old.end_reason;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_session_end on public.remote_sessions;
+create trigger set_session_end
+  before update on public.remote_sessions
+  for each row execute function public.set_session_end();
+
+-- End every active session whose client has been silent for longer than heartbeat_timeout.
+-- Clients beat every 10 s; background tabs may be throttled to once a minute, hence the default.
+-- Returns how many sessions were ended
+create or replace function public.reap_stale_sessions(heartbeat_timeout interval default interval '2 minutes')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reaped integer;
+begin
+  update public.remote_sessions
+  set is_active = false,
+      end_reason = 'timed_out'
+  where is_active
+    and last_active < now() - heartbeat_timeout;
+
+  get diagnostics reaped = row_count;
+
+  if reaped > 0 then
+    -- Agents and observers see the session end over postgres_changes. Users still waiting
+    -- move up the queue, so tell them like the clients do
+    perform realtime.send('{}'::jsonb, 'queue-changed', 'support-queue', false);
+  end if;
+  return reaped;
+end;
+$$;
+
+revoke execute on function public.reap_stale_sessions(interval) from public, anon, authenticated;
+
+-- Run the reaper every minute. To change the timeout, reschedule with a different argument
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'reap-stale-sessions',
+  '* * * * *',
+  $$select public.reap_stale_sessions(interval '2 minutes')$$
+);
@@ -0,0 +1,41 @@
+-- Closed sessions stay in the database with their transcript, chat and config snapshots as an archive.
+-- Owners and the agents who worked on a session keep reading it through the existing policies;
+-- any support agent may review the archive, e.g. to see what was changed on a customer's device.
+create or replace function public.is_archived_session(target_session_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.remote_sessions
+    where id = target_session_id and not is_active
+  );
+$$;
+
+create index if not exists remote_sessions_archive_idx
+  on public.remote_sessions (ended_at desc)
+  where not is_active;
+
+create policy "Support agents can read archived sessions"
+  on public.remote_sessions for select
+  using (not is_active and public.is_support_agent());
+
+create policy "Support agents can read archived transcripts"
+  on public.session_commands for select
+  using (public.is_support_agent() and public.is_archived_session(session_id));
+
+create policy "Support agents can read archived chats"
+  on public.session_messages for select
+  using (public.is_support_agent() and public.is_archived_session(session_id));
+
+create policy "Support agents can read archived config snapshots"
+  on public.session_config_snapshots for select
+  using (public.is_support_agent() and public.is_archived_session(session_id));
+
+-- The archive is read-only: a transcript can only be cleared while its session is open
+drop policy if exists "Session participants can clear the transcript" on public.session_commands;
+create policy "Session participants can clear the transcript"
+  on public.session_commands for delete
+  using (public.is_session_participant(session_id) and not public.is_archived_session(session_id));
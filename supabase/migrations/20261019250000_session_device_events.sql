@@ -0,0 +1,41 @@
+-- Every change of remote_sessions.device_state, so a replay can show when the device dropped and came back.
+-- Written by trigger only; device_state itself just holds the latest state.
+create table if not exists public.session_device_events (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.remote_sessions (id) on delete cascade,
+  device_state text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_device_events_session_idx
+  on public.session_device_events (session_id, created_at);
+
+alter table public.session_device_events enable row level security;
+
+create policy "Session participants can read device events"
+  on public.session_device_events for select
+  using (public.can_access_session(session_id));
+
+create policy "Support agents can read archived device events"
+  on public.session_device_events for select
+  using (public.is_support_agent() and public.is_archived_session(session_id));
+
+create or replace function public.record_session_device_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.device_state is distinct from old.device_state then
+    insert into public.session_device_events (session_id, device_state)
+    values (new.id, new.device_state);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists record_session_device_event on public.remote_sessions;
+create trigger record_session_device_event
+  after insert or update of device_state on public.remote_sessions
+  for each row execute function public.record_session_device_event();
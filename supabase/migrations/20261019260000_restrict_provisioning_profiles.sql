@@ -0,0 +1,58 @@
+-- Profiles hold broker passwords in plain text, so only support agents manage them. Device users
+-- list them without the password and fetch one profile at a time when they apply it to their device.
+drop policy if exists "Signed-in users can manage provisioning profiles" on public.provisioning_profiles;
+create policy "Support agents can manage provisioning profiles"
+  on public.provisioning_profiles for all
+  to authenticated
+  using (public.is_support_agent())
+  with check (public.is_support_agent());
+
+create or replace function public.list_provisioning_profiles()
+returns table (
+  id uuid,
+  name text,
+  payload_type text,
+  host text,
+  port integer,
+  client_id text,
+  username text,
+  pub_topic text,
+  sub_topic text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.name, p.payload_type, p.host, p.port, p.client_id, p.username, p.pub_topic, p.sub_topic
+  from public.provisioning_profiles p
+  where auth.uid() is not null
+  order by p.name;
+$$;
+
+-- The password has to reach the device through the user's browser. Outside of agents, it is only
+-- handed out while the caller has a device connected in an active support session
+create or replace function public.get_provisioning_profile_password(profile_id uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  profile_password text;
+begin
+  if not public.is_support_agent() and not exists (
+    select 1 from public.remote_sessions
+    where owner_id = auth.uid() and is_active and device_state = 'connected'
+  ) then
+    raise exception 'Profiles can only be applied during a support session with the device connected';
+  end if;
+
+  select p.password into profile_password
+  from public.provisioning_profiles p
+  where p.id = profile_id;
+
+  return profile_password;
+end;
+$$;
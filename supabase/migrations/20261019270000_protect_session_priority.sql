@@ -0,0 +1,62 @@
+-- Owners could raise their own session to urgent with a plain update and jump the queue. Priority is
+-- now only changed through set_session_priority(), and owners can share at most as high
+create or replace function public.keep_session_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.owner_id := old.owner_id;
+  if coalesce(current_setting('app.session_handoff', true), '') <> 'on' then
+    new.assigned_agent_id := old.assigned_agent_id;
+    new.assigned_agent_name := old.assigned_agent_name;
+    new.handoff_note := old.handoff_note;
+    new.handed_off_by := old.handed_off_by;
+    new.handed_off_at := old.handed_off_at;
+    new.queued_at := old.queued_at;
+    new.claimed_at := old.claimed_at;
+  end if;
+  if coalesce(current_setting('app.session_priority', true), '') <> 'on' then
+    new.priority := old.priority;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.cap_session_priority()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.priority = 'urgent' and not public.is_support_agent() then
+    new.priority := 'high';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cap_session_priority on public.remote_sessions;
+create trigger cap_session_priority
+  before insert on public.remote_sessions
+  for each row execute function public.cap_session_priority();
+
+create or replace function public.set_session_priority(target_session_id uuid, new_priority text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can change the priority of a session';
+  end if;
+
+  perform set_config('app.session_priority', 'on', true);
+  update public.remote_sessions
+  set priority = new_priority
+  where id = target_session_id
+    and is_active
+    and public.can_access_session(id);
+
+  return found;
+end;
+$$;
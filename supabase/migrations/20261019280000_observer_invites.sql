@@ -0,0 +1,86 @@
+-- Knowing a session id was enough to observe it. Observers are now invited by the assigned agent,
+-- and an agent who hands a session over stays on as an observer
+create or replace function public.invite_session_observer(target_session_id uuid, observer_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles where id = observer_id and role = 'support_agent') then
+    raise exception 'Only support agents can observe a session';
+  end if;
+
+  insert into public.session_observers (session_id, agent_id, agent_name)
+  select s.id, observer_id, public.agent_display_name(observer_id)
+  from public.remote_sessions s
+  where s.id = target_session_id
+    and s.is_active
+    and s.assigned_agent_id = auth.uid()
+    and s.assigned_agent_id <> observer_id
+  on conflict (session_id, agent_id) do nothing;
+
+  return exists (
+    select 1 from public.session_observers o
+    join public.remote_sessions s on s.id = o.session_id
+    where o.session_id = target_session_id
+      and o.agent_id = observer_id
+      and s.assigned_agent_id = auth.uid()
+  );
+end;
+$$;
+
+-- Opens a session the agent was invited to. It no longer adds anyone
+create or replace function public.observe_session(target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can observe a session';
+  end if;
+
+  return exists (
+    select 1 from public.session_observers o
+    join public.remote_sessions s on s.id = o.session_id
+    where o.session_id = target_session_id
+      and o.agent_id = auth.uid()
+      and s.is_active
+  );
+end;
+$$;
+
+create or replace function public.transfer_session_agent(target_session_id uuid, new_agent_id uuid, note text default null)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles where id = new_agent_id and role = 'support_agent') then
+    raise exception 'Sessions can only be transferred to a support agent';
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = new_agent_id,
+      assigned_agent_name = public.agent_display_name(new_agent_id),
+      handoff_note = nullif(trim(note), ''),
+      handed_off_by = auth.uid(),
+      handed_off_at = now()
+  where id = target_session_id
+    and is_active
+    and assigned_agent_id = auth.uid();
+
+  if found then
+    delete from public.session_observers where session_id = target_session_id and agent_id = new_agent_id;
+    insert into public.session_observers (session_id, agent_id, agent_name)
+    values (target_session_id, auth.uid(), public.agent_display_name(auth.uid()))
+    on conflict (session_id, agent_id) do nothing;
+    return true;
+  end if;
+  return false;
+end;
+$$;
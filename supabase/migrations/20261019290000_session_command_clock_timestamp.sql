@@ -0,0 +1,12 @@
+-- now() is the start of the transaction, so a long transaction stamped rows far behind rows other
+-- transactions had already committed, and a client's sync cursor could skip past them.
+-- clock_timestamp() narrows that to the time between the write and its commit
+create or replace function public.touch_session_command()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
@@ -0,0 +1,79 @@
+-- device_state defaults to 'connected', so a user could insert a session row and pass the password
+-- check without any device or agent. device_state_at is only stamped when the device link reports a
+-- state, and the password now also needs an agent on the session
+alter table public.remote_sessions
+  add column if not exists device_state_at timestamptz null;
+
+create or replace function public.stamp_session_device_state()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.device_state_at := null;
+  else
+    new.device_state_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_session_device_state on public.remote_sessions;
+create trigger stamp_session_device_state
+  before insert or update of device_state on public.remote_sessions
+  for each row execute function public.stamp_session_device_state();
+
+-- Runs before stamp_session_device_state, so device_state_at only moves with device_state
+create or replace function public.keep_session_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.owner_id := old.owner_id;
+  new.device_state_at := old.device_state_at;
+  if coalesce(current_setting('app.session_handoff', true), '') <> 'on' then
+    new.assigned_agent_id := old.assigned_agent_id;
+    new.assigned_agent_name := old.assigned_agent_name;
+    new.handoff_note := old.handoff_note;
+    new.handed_off_by := old.handed_off_by;
+    new.handed_off_at := old.handed_off_at;
+    new.queued_at := old.queued_at;
+    new.claimed_at := old.claimed_at;
+  end if;
+  if coalesce(current_setting('app.session_priority', true), '') <> 'on' then
+    new.priority := old.priority;
+  end if;
+  return new;
+end;
+$$;
+
+-- Outside of agents, the password is only handed out while an agent is on the caller's session and
+-- the device link has reported the device as connected
+create or replace function public.get_provisioning_profile_password(profile_id uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  profile_password text;
+begin
+  if not public.is_support_agent() and not exists (
+    select 1 from public.remote_sessions
+    where owner_id = auth.uid()
+      and is_active
+      and assigned_agent_id is not null
+      and device_state = 'connected'
+      and device_state_at is not null
+  ) then
+    raise exception 'Profiles can only be applied while a support agent is on your session and the device is connected';
+  end if;
+
+  select p.password into profile_password
+  from public.provisioning_profiles p
+  where p.id = profile_id;
+
+  return profile_password;
+end;
+$$;
@@ -0,0 +1,54 @@
+-- Agents cannot list waiting sessions, so they take the next one instead: highest priority first,
+-- then whoever has waited longest - the order get_queue_status() reports to users
+create or replace function public.claim_next_session()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_session_id uuid;
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can be assigned to a session';
+  end if;
+
+  select id into target_session_id
+  from public.remote_sessions
+  where is_active and assigned_agent_id is null
+  order by public.session_priority_rank(priority) desc, queued_at
+  limit 1
+  for update skip locked;
+
+  if target_session_id is null then
+    return null;
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid(),
+      assigned_agent_name = public.agent_display_name(auth.uid()),
+      claimed_at = coalesce(claimed_at, now())
+  where id = target_session_id;
+
+  delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+  -- A code the user still shows must not let a second agent in
+  delete from public.session_join_codes where session_id = target_session_id;
+  return target_session_id;
+end;
+$$;
+
+-- How many sessions wait at each priority, without revealing whose they are
+create or replace function public.get_waiting_summary()
+returns table (priority text, waiting_count integer, oldest_queued_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.priority, count(*)::integer, min(s.queued_at)
+  from public.remote_sessions s
+  where public.is_support_agent() and s.is_active and s.assigned_agent_id is null
+  group by s.priority
+  order by public.session_priority_rank(s.priority) desc;
+$$;
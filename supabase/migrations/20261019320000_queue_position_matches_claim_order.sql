@@ -0,0 +1,78 @@
+-- A user's queue position is the order claim_next_session() takes sessions in. Both break ties on id,
+-- so two sessions queued at the same moment never report the same place
+create or replace function public.claim_next_session()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_session_id uuid;
+begin
+  if not public.is_support_agent() then
+    raise exception 'Only support agents can be assigned to a session';
+  end if;
+
+  select id into target_session_id
+  from public.remote_sessions
+  where is_active and assigned_agent_id is null
+  order by public.session_priority_rank(priority) desc, queued_at, id
+  limit 1
+  for update skip locked;
+
+  if target_session_id is null then
+    return null;
+  end if;
+
+  perform set_config('app.session_handoff', 'on', true);
+  update public.remote_sessions
+  set assigned_agent_id = auth.uid(),
+      assigned_agent_name = public.agent_display_name(auth.uid()),
+      claimed_at = coalesce(claimed_at, now())
+  where id = target_session_id;
+
+  delete from public.session_observers where session_id = target_session_id and agent_id = auth.uid();
+  delete from public.session_join_codes where session_id = target_session_id;
+  return target_session_id;
+end;
+$$;
+
+-- The estimate is the average wait of sessions claimed in the last day, per place
+create or replace function public.get_queue_status(target_session_id uuid)
+returns table (queue_position integer, waiting_count integer, estimated_wait_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  average_wait double precision;
+begin
+  if not exists (
+    select 1 from public.remote_sessions
+    where id = target_session_id and owner_id = auth.uid() and is_active and assigned_agent_id is null
+  ) then
+    return;
+  end if;
+
+  select avg(extract(epoch from (claimed_at - queued_at))) into average_wait
+  from public.remote_sessions
+  where claimed_at is not null
+    and claimed_at > now() - interval '1 day';
+
+  return query
+  with queue as (
+    select s.id,
+      row_number() over (order by public.session_priority_rank(s.priority) desc, s.queued_at, s.id) as place,
+      count(*) over () as total
+    from public.remote_sessions s
+    where s.is_active and s.assigned_agent_id is null
+  )
+  select
+    q.place::integer,
+    q.total::integer,
+    case when average_wait is null then null else round(average_wait * q.place)::integer end
+  from queue q
+  where q.id = target_session_id;
+end;
+$$;
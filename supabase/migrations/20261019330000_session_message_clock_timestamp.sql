@@ -0,0 +1,26 @@
+-- Messages get the same treatment as session commands: stamped with clock_timestamp(), so a long
+-- transaction does not date a message far behind ones a client's sync cursor already passed
+create or replace function public.set_session_message_sender()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.remote_sessions%rowtype;
+begin
+  select * into target from public.remote_sessions where id = new.session_id;
+
+  new.sender_id := auth.uid();
+  new.created_at := clock_timestamp();
+  if target.owner_id = auth.uid() then
+    new.sender := 'user';
+  elsif target.assigned_agent_id = auth.uid() then
+    new.sender := 'support';
+  else
+    raise exception 'Not allowed to write to session %', new.session_id;
+  end if;
+
+  return new;
+end;
+$$;